@@ -10,11 +10,15 @@ jest.unstable_mockModule('../../src/cli/commands/create-account-key.js', () => (
 jest.unstable_mockModule('../../src/cli/commands/interactive.js', () => ({
   handleInteractiveMode: jest.fn(async () => {}),
 }));
+jest.unstable_mockModule('../../src/cli/commands/revoke.js', () => ({
+  handleRevokeCommand: jest.fn(async () => {}),
+}));
 
 // Import after mocks
 const { runCli } = await import('../../src/cli/program.js');
 const certModule = await import('../../src/cli/commands/cert.js');
 const accountKeyModule = await import('../../src/cli/commands/create-account-key.js');
+const revokeModule = await import('../../src/cli/commands/revoke.js');
 
 // Utility to run with test env
 function withTestEnv(fn: () => Promise<void>) {
@@ -73,6 +77,52 @@ describe('acme-love CLI', () => {
     }),
   );
 
+  test(
+    'cert command forwards --standalone and --http-port',
+    withTestEnv(async () => {
+      const handleCert = certModule.handleCertCommand as jest.Mock;
+      handleCert.mockClear();
+      await runCli(['cert', '-d', 'example.com', '--standalone', '--http-port', '8080']);
+      expect(handleCert.mock.calls[0][0]).toMatchObject({
+        domain: 'example.com',
+        standalone: true,
+        httpPort: '8080',
+      });
+    }),
+  );
+
+  test(
+    'cert command collects repeated --webroot values',
+    withTestEnv(async () => {
+      const handleCert = certModule.handleCertCommand as jest.Mock;
+      handleCert.mockClear();
+      await runCli([
+        'cert',
+        '-d',
+        'example.com',
+        '--webroot',
+        '/var/www/html',
+        '--webroot',
+        'api.example.com=/srv/api',
+      ]);
+      expect(handleCert.mock.calls[0][0]).toMatchObject({
+        webroot: ['/var/www/html', 'api.example.com=/srv/api'],
+      });
+    }),
+  );
+
+  test(
+    'cert command runs the CAA check unless --no-caa-check is given',
+    withTestEnv(async () => {
+      const handleCert = certModule.handleCertCommand as jest.Mock;
+      handleCert.mockClear();
+      await runCli(['cert', '-d', 'example.com']);
+      await runCli(['cert', '-d', 'example.com', '--no-caa-check']);
+      expect(handleCert.mock.calls[0][0]).toMatchObject({ caaCheck: true });
+      expect(handleCert.mock.calls[1][0]).toMatchObject({ caaCheck: false });
+    }),
+  );
+
   test(
     'create-account-key command forwards options',
     withTestEnv(async () => {
@@ -81,4 +131,28 @@ describe('acme-love CLI', () => {
       expect(handleCreate).toHaveBeenCalledWith({ output: './ak.json', algo: 'ec-p384' });
     }),
   );
+
+  test(
+    'revoke command forwards options',
+    withTestEnv(async () => {
+      const handleRevoke = revokeModule.handleRevokeCommand as jest.Mock;
+      await runCli([
+        'revoke',
+        '--cert',
+        './cert.pem',
+        '--key',
+        './cert-key.pem',
+        '--reason',
+        'key-compromise',
+        '--staging',
+      ]);
+      expect(handleRevoke).toHaveBeenCalledTimes(1);
+      expect(handleRevoke.mock.calls[0][0]).toMatchObject({
+        cert: './cert.pem',
+        key: './cert-key.pem',
+        reason: 'key-compromise',
+        staging: true,
+      });
+    }),
+  );
 });
@@ -1,7 +1,16 @@
 import { describe, test, expect, jest, beforeEach } from '@jest/globals';
 import * as jose from 'jose';
+import { webcrypto } from 'crypto';
+import * as x509 from '@peculiar/x509';
 // Updated to import from public entrypoint
-import { AcmeAccount, type AccountKeys, AcmeClient, AccountError } from '../../src/index.js';
+import {
+  AcmeAccount,
+  type AccountKeys,
+  AcmeClient,
+  AccountError,
+  AccountDoesNotExistError,
+  OrderError,
+} from '../../src/index.js';
 import type { AcmeRequestSigner } from '../../src/lib/core/acme-request-signer.js';
 import type { AcmeOrderManager } from '../../src/lib/core/acme-order-manager.js';
 import type { AcmeChallengeSolver } from '../../src/lib/core/acme-challenge-solver.js';
@@ -21,8 +30,21 @@ function makeMockSigner(keys: AccountKeys): AcmeRequestSigner {
       newAccount: 'https://acme.test/new-account',
       newOrder: 'https://acme.test/new-order',
       revokeCert: 'https://acme.test/revoke-cert',
+      keyChange: 'https://acme.test/key-change',
     }),
     createExternalAccountBinding: jest.fn().mockResolvedValue('eab-jws'),
+    createKeyChangeJws: jest.fn().mockResolvedValue({
+      protected: 'inner-protected',
+      payload: 'inner-payload',
+      signature: 'inner-signature',
+    }),
+    replaceKeys: jest.fn(),
+    markDeactivated: jest.fn(),
+    unsignedGet: jest.fn().mockResolvedValue({
+      statusCode: 200,
+      headers: {},
+      body: {},
+    }),
   } as unknown as AcmeRequestSigner;
 }
 
@@ -36,7 +58,9 @@ function makeMockOrders(): AcmeOrderManager {
     }),
     finalize: jest.fn().mockResolvedValue({ status: 'processing' }),
     waitOrder: jest.fn().mockResolvedValue({ status: 'valid' }),
+    cancelAutoRenewal: jest.fn().mockResolvedValue({ status: 'canceled' }),
     downloadCertificate: jest.fn().mockResolvedValue('-----BEGIN CERTIFICATE-----\n...'),
+    listAlternateChains: jest.fn().mockResolvedValue([]),
   } as unknown as AcmeOrderManager;
 }
 
@@ -47,6 +71,13 @@ function makeMockChallenges(): AcmeChallengeSolver {
     acceptChallenge: jest.fn().mockResolvedValue({ type: 'dns-01', status: 'processing' }),
     solveDns01: jest.fn().mockResolvedValue({ status: 'ready' }),
     solveHttp01: jest.fn().mockResolvedValue({ status: 'ready' }),
+    solveTlsAlpn01: jest.fn().mockResolvedValue({ status: 'ready' }),
+    solve: jest.fn().mockResolvedValue({ status: 'ready' }),
+    preAuthorize: jest.fn().mockResolvedValue({ status: 'pending' }),
+    solveAuthorization: jest.fn().mockResolvedValue({ status: 'valid' }),
+    deactivateAuthorization: jest.fn().mockResolvedValue({ status: 'deactivated' }),
+    waitAuthorization: jest.fn().mockResolvedValue({ status: 'valid' }),
+    deactivateOrderAuthorizations: jest.fn().mockResolvedValue([]),
   } as unknown as AcmeChallengeSolver;
 }
 
@@ -285,6 +316,50 @@ describe('AcmeAccount', () => {
       });
     });
 
+    describe('lookup', () => {
+      test('posts onlyReturnExisting with jwk header and sets kid', async () => {
+        (mockSigner.signedPost as jest.Mock).mockResolvedValueOnce({
+          statusCode: 200,
+          headers: { location: 'https://acme.test/acct/7' },
+          body: { status: 'valid' },
+        });
+
+        const accountUrl = await diAccount.lookup();
+
+        expect(accountUrl).toBe('https://acme.test/acct/7');
+        expect(mockSigner.kid).toBe('https://acme.test/acct/7');
+        expect(mockSigner.signedPost).toHaveBeenCalledWith(
+          'https://acme.test/new-account',
+          { onlyReturnExisting: true },
+          true,
+        );
+      });
+
+      test('maps accountDoesNotExist to AccountDoesNotExistError', async () => {
+        (mockSigner.signedPost as jest.Mock).mockResolvedValueOnce({
+          statusCode: 400,
+          headers: {},
+          body: {
+            type: 'urn:ietf:params:acme:error:accountDoesNotExist',
+            detail: 'No account exists with the provided key',
+          },
+        });
+
+        await expect(diAccount.lookup()).rejects.toBeInstanceOf(AccountDoesNotExistError);
+        expect(mockSigner.kid).toBe('');
+      });
+
+      test('throws AccountError when Location header missing', async () => {
+        (mockSigner.signedPost as jest.Mock).mockResolvedValueOnce({
+          statusCode: 200,
+          headers: {},
+          body: { status: 'valid' },
+        });
+
+        await expect(diAccount.lookup()).rejects.toThrow(AccountError);
+      });
+    });
+
     describe('getAccount', () => {
       test('returns account info when registered', async () => {
         mockSigner.kid = 'https://acme.test/acct/1';
@@ -314,6 +389,123 @@ describe('AcmeAccount', () => {
       });
     });
 
+    describe('updateContact', () => {
+      test('posts normalized contacts to the account URL', async () => {
+        mockSigner.kid = 'https://acme.test/acct/1';
+        (mockSigner.signedPost as jest.Mock).mockResolvedValueOnce({
+          statusCode: 200,
+          body: { status: 'valid', contact: ['mailto:oncall@example.com'] },
+        });
+
+        const result = await diAccount.updateContact(['oncall@example.com']);
+
+        expect(mockSigner.signedPost).toHaveBeenCalledWith('https://acme.test/acct/1', {
+          contact: ['mailto:oncall@example.com'],
+        });
+        expect(result.contact).toEqual(['mailto:oncall@example.com']);
+      });
+
+      test('throws AccountError when not registered', async () => {
+        mockSigner.kid = '';
+
+        await expect(diAccount.updateContact('x@test.com')).rejects.toThrow(AccountError);
+      });
+
+      test('throws on non-200 response', async () => {
+        mockSigner.kid = 'https://acme.test/acct/1';
+        (mockSigner.signedPost as jest.Mock).mockResolvedValueOnce({
+          statusCode: 400,
+          body: { type: 'urn:ietf:params:acme:error:invalidContact', detail: 'bad email' },
+        });
+
+        await expect(diAccount.updateContact('x@invalid')).rejects.toThrow('bad email');
+      });
+    });
+
+    describe('deactivate', () => {
+      test('posts deactivated status and marks signer deactivated', async () => {
+        mockSigner.kid = 'https://acme.test/acct/1';
+        (mockSigner.signedPost as jest.Mock).mockResolvedValueOnce({
+          statusCode: 200,
+          body: { status: 'deactivated' },
+        });
+
+        const result = await diAccount.deactivate();
+
+        expect(mockSigner.signedPost).toHaveBeenCalledWith('https://acme.test/acct/1', {
+          status: 'deactivated',
+        });
+        expect(result.status).toBe('deactivated');
+        expect(mockSigner.markDeactivated).toHaveBeenCalled();
+      });
+
+      test('does not mark signer deactivated when server rejects', async () => {
+        mockSigner.kid = 'https://acme.test/acct/1';
+        (mockSigner.signedPost as jest.Mock).mockResolvedValueOnce({
+          statusCode: 403,
+          body: { type: 'urn:ietf:params:acme:error:unauthorized', detail: 'no' },
+        });
+
+        await expect(diAccount.deactivate()).rejects.toThrow();
+        expect(mockSigner.markDeactivated).not.toHaveBeenCalled();
+      });
+
+      test('getAccount marks signer deactivated when server reports it', async () => {
+        mockSigner.kid = 'https://acme.test/acct/1';
+        (mockSigner.signedPost as jest.Mock).mockResolvedValueOnce({
+          statusCode: 200,
+          body: { status: 'deactivated' },
+        });
+
+        await diAccount.getAccount();
+        expect(mockSigner.markDeactivated).toHaveBeenCalled();
+      });
+    });
+
+    describe('rolloverKey', () => {
+      test('posts inner JWS to keyChange and swaps signer keys', async () => {
+        mockSigner.kid = 'https://acme.test/acct/1';
+        const newKeys = { privateKey: {}, publicKey: {} } as AccountKeys;
+
+        await diAccount.rolloverKey(newKeys);
+
+        expect(mockSigner.createKeyChangeJws).toHaveBeenCalledWith(
+          newKeys,
+          'https://acme.test/key-change',
+        );
+        expect(mockSigner.signedPost).toHaveBeenCalledWith('https://acme.test/key-change', {
+          protected: 'inner-protected',
+          payload: 'inner-payload',
+          signature: 'inner-signature',
+        });
+        expect(mockSigner.replaceKeys).toHaveBeenCalledWith(newKeys);
+        expect(mockSigner.kid).toBe('https://acme.test/acct/1');
+      });
+
+      test('throws AccountError when not registered', async () => {
+        mockSigner.kid = '';
+
+        await expect(
+          diAccount.rolloverKey({ privateKey: {}, publicKey: {} } as AccountKeys),
+        ).rejects.toThrow(AccountError);
+        expect(mockSigner.signedPost).not.toHaveBeenCalled();
+      });
+
+      test('keeps old keys when server rejects the rollover', async () => {
+        mockSigner.kid = 'https://acme.test/acct/1';
+        (mockSigner.signedPost as jest.Mock).mockResolvedValueOnce({
+          statusCode: 409,
+          headers: { location: 'https://acme.test/acct/2' },
+          body: { type: 'urn:ietf:params:acme:error:malformed', detail: 'key in use' },
+        });
+
+        await expect(
+          diAccount.rolloverKey({ privateKey: {}, publicKey: {} } as AccountKeys),
+        ).rejects.toThrow('key in use');
+        expect(mockSigner.replaceKeys).not.toHaveBeenCalled();
+      });
+    });
+
     describe('fetch', () => {
       test('returns parsed body on success', async () => {
         (mockSigner.signedPost as jest.Mock).mockResolvedValueOnce({
@@ -374,10 +566,99 @@ describe('AcmeAccount', () => {
       });
     });
 
+    describe('getRenewalInfo', () => {
+      let certPem: string;
+
+      beforeEach(async () => {
+        const alg = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+        const certKeys = (await webcrypto.subtle.generateKey(alg, true, [
+          'sign',
+          'verify',
+        ])) as webcrypto.CryptoKeyPair;
+        const cert = await x509.X509CertificateGenerator.create({
+          serialNumber: '0102',
+          subject: 'CN=example.com',
+          issuer: 'CN=Test Issuer',
+          signingAlgorithm: alg,
+          publicKey: certKeys.publicKey,
+          signingKey: certKeys.privateKey,
+          extensions: [new x509.AuthorityKeyIdentifierExtension('0a0b0c')],
+        });
+        certPem = cert.toString('pem');
+
+        (mockSigner.getDirectory as jest.Mock).mockResolvedValue({
+          newAccount: 'https://acme.test/new-account',
+          newOrder: 'https://acme.test/new-order',
+          renewalInfo: 'https://acme.test/renewal-info/',
+        } as never);
+      });
+
+      test('GETs renewalInfo by certificate ID and returns window with Retry-After', async () => {
+        (mockSigner.unsignedGet as jest.Mock).mockResolvedValueOnce({
+          statusCode: 200,
+          headers: { 'retry-after': '21600' },
+          body: {
+            suggestedWindow: {
+              start: '2025-03-01T00:00:00Z',
+              end: '2025-03-03T00:00:00Z',
+            },
+            explanationURL: 'https://acme.test/incident',
+          },
+        } as never);
+
+        const info = await diAccount.getRenewalInfo(certPem);
+
+        expect(mockSigner.unsignedGet).toHaveBeenCalledWith(
+          'https://acme.test/renewal-info/CgsM.AQI',
+        );
+        expect(mockSigner.signedPost).not.toHaveBeenCalled();
+        expect(info.suggestedWindow.start).toBe('2025-03-01T00:00:00Z');
+        expect(info.explanationURL).toBe('https://acme.test/incident');
+        expect(info.retryAfterMs).toBe(21_600_000);
+      });
+
+      test('returns null retryAfterMs without a Retry-After header', async () => {
+        (mockSigner.unsignedGet as jest.Mock).mockResolvedValueOnce({
+          statusCode: 200,
+          headers: {},
+          body: { suggestedWindow: { start: 'a', end: 'b' } },
+        } as never);
+
+        const info = await diAccount.getRenewalInfo(certPem);
+        expect(info.retryAfterMs).toBeNull();
+      });
+
+      test('throws OrderError when the directory has no renewalInfo', async () => {
+        (mockSigner.getDirectory as jest.Mock).mockResolvedValue({
+          newOrder: 'https://acme.test/new-order',
+        } as never);
+
+        await expect(diAccount.getRenewalInfo(certPem)).rejects.toThrow(OrderError);
+        expect(mockSigner.unsignedGet).not.toHaveBeenCalled();
+      });
+
+      test('throws on non-200 response', async () => {
+        (mockSigner.unsignedGet as jest.Mock).mockResolvedValueOnce({
+          statusCode: 404,
+          headers: {},
+          body: { type: 'urn:ietf:params:acme:error:malformed', detail: 'unknown cert' },
+        } as never);
+
+        await expect(diAccount.getRenewalInfo(certPem)).rejects.toThrow('unknown cert');
+      });
+    });
+
     describe('delegation methods', () => {
       test('createOrder delegates to orders', async () => {
         await diAccount.createOrder(['example.com']);
-        expect(mockOrders.createOrder).toHaveBeenCalledWith(['example.com']);
+        expect(mockOrders.createOrder).toHaveBeenCalledWith(['example.com'], {});
+      });
+
+      test('createOrder forwards the ARI replaces option', async () => {
+        await diAccount.createOrder(['example.com'], { replaces: 'aki.serial' });
+        expect(mockOrders.createOrder).toHaveBeenCalledWith(['example.com'], {
+          replaces: 'aki.serial',
+        });
       });
 
       test('finalize delegates to orders', async () => {
@@ -389,14 +670,35 @@ describe('AcmeAccount', () => {
       test('waitOrder delegates to orders', async () => {
         const order = { status: 'processing' } as any;
         await diAccount.waitOrder(order, ['valid']);
-        expect(mockOrders.waitOrder).toHaveBeenCalledWith(order, ['valid']);
+        expect(mockOrders.waitOrder).toHaveBeenCalledWith(order, ['valid'], {});
+      });
+
+      test('cancelAutoRenewal delegates to orders', async () => {
+        const order = { status: 'valid', url: 'https://acme.test/order/1' } as any;
+        const canceled = await diAccount.cancelAutoRenewal(order);
+        expect(canceled.status).toBe('canceled');
+        expect(mockOrders.cancelAutoRenewal).toHaveBeenCalledWith(order);
       });
 
       test('downloadCertificate delegates to orders', async () => {
         const order = { status: 'valid', certificate: 'url' } as any;
         const cert = await diAccount.downloadCertificate(order);
         expect(cert).toContain('BEGIN CERTIFICATE');
-        expect(mockOrders.downloadCertificate).toHaveBeenCalledWith(order);
+        expect(mockOrders.downloadCertificate).toHaveBeenCalledWith(order, {});
+      });
+
+      test('downloadCertificate forwards preferredChain', async () => {
+        const order = { status: 'valid', certificate: 'url' } as any;
+        await diAccount.downloadCertificate(order, { preferredChain: 'ISRG Root X1' });
+        expect(mockOrders.downloadCertificate).toHaveBeenCalledWith(order, {
+          preferredChain: 'ISRG Root X1',
+        });
+      });
+
+      test('listAlternateChains delegates to orders', async () => {
+        const order = { status: 'valid', certificate: 'url' } as any;
+        await diAccount.listAlternateChains(order);
+        expect(mockOrders.listAlternateChains).toHaveBeenCalledWith(order);
       });
 
       test('getChallenge delegates to challenges', async () => {
@@ -422,6 +724,61 @@ describe('AcmeAccount', () => {
         await diAccount.solveHttp01(order, opts);
         expect(mockChallenges.solveHttp01).toHaveBeenCalledWith(order, opts);
       });
+
+      test('solveTlsAlpn01 delegates to challenges', async () => {
+        const order = { status: 'pending' } as any;
+        const opts = { setTlsAlpn: jest.fn(), waitFor: jest.fn() };
+        await diAccount.solveTlsAlpn01(order, opts);
+        expect(mockChallenges.solveTlsAlpn01).toHaveBeenCalledWith(order, opts);
+      });
+
+      test('solve delegates to challenges', async () => {
+        const order = { status: 'pending' } as any;
+        const opts = {
+          handlers: { 'dns-01': { setChallenge: jest.fn(), waitFor: jest.fn() } },
+          strategy: { wildcard: ['dns-01' as const] },
+        } as any;
+        await diAccount.solve(order, opts);
+        expect(mockChallenges.solve).toHaveBeenCalledWith(order, opts);
+      });
+
+      test('preAuthorize delegates to challenges', async () => {
+        await diAccount.preAuthorize('*.example.com');
+        expect(mockChallenges.preAuthorize).toHaveBeenCalledWith('*.example.com');
+      });
+
+      test('waitAuthorization delegates to challenges', async () => {
+        await diAccount.waitAuthorization('https://acme.test/authz/1', { maxWaitMs: 1000 });
+        expect(mockChallenges.waitAuthorization).toHaveBeenCalledWith('https://acme.test/authz/1', {
+          maxWaitMs: 1000,
+        });
+      });
+
+      test('deactivateAuthorization delegates to challenges', async () => {
+        await diAccount.deactivateAuthorization('https://acme.test/authz/1');
+        expect(mockChallenges.deactivateAuthorization).toHaveBeenCalledWith(
+          'https://acme.test/authz/1',
+        );
+      });
+
+      test('deactivateOrderAuthorizations delegates to challenges', async () => {
+        const order = { status: 'valid', authorizations: [] } as any;
+        await diAccount.deactivateOrderAuthorizations(order);
+        expect(mockChallenges.deactivateOrderAuthorizations).toHaveBeenCalledWith(order);
+      });
+
+      test('solveAuthorization delegates to challenges', async () => {
+        const opts = {
+          challengeType: 'dns-01' as const,
+          setChallenge: jest.fn(),
+          waitFor: jest.fn(),
+        };
+        await diAccount.solveAuthorization('https://acme.test/authz/1', opts as any);
+        expect(mockChallenges.solveAuthorization).toHaveBeenCalledWith(
+          'https://acme.test/authz/1',
+          opts,
+        );
+      });
     });
 
     describe('getters/setters', () => {
@@ -454,6 +811,7 @@ describe('AcmeAccount', () => {
       test('returns authorization on success', async () => {
         (mockSigner.signedPost as jest.Mock).mockResolvedValueOnce({
           statusCode: 200,
+          headers: {},
           body: { identifier: { type: 'dns', value: 'example.com' }, status: 'pending' },
         });
 
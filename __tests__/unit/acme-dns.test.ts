@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createAcmeDnsProvider, type AcmeDnsAccount } from '../../src/lib/dns/acme-dns.js';
+
+const VALUE = 'gfj9Xq-Xp2i3fkaV0Y-GSC8GFaBBa0ClRsKkHM0EKqE';
+
+interface Received {
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+/** Minimal stand-in for the acme-dns HTTP API */
+function startAcmeDns(
+  received: Received[],
+): Promise<{ server: Server; url: string; accounts: Map<string, AcmeDnsAccount> }> {
+  const accounts = new Map<string, AcmeDnsAccount>();
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+      received.push({ path: req.url ?? '', headers: req.headers, body });
+
+      if (req.method === 'POST' && req.url === '/register') {
+        const n = accounts.size + 1;
+        const account: AcmeDnsAccount = {
+          username: `user-${n}`,
+          password: `pass-${n}`,
+          subdomain: `sub-${n}`,
+          fulldomain: `sub-${n}.auth.example.org`,
+          allowfrom: (body.allowfrom as string[] | undefined) ?? [],
+        };
+        accounts.set(account.username, account);
+        res.writeHead(201, { 'Content-Type': 'application/json' }).end(JSON.stringify(account));
+        return;
+      }
+
+      if (req.method === 'POST' && req.url === '/update') {
+        const account = accounts.get(String(req.headers['x-api-user']));
+        if (
+          !account ||
+          account.password !== req.headers['x-api-key'] ||
+          body.subdomain !== account.subdomain
+        ) {
+          res.writeHead(401).end(JSON.stringify({ error: 'forbidden' }));
+          return;
+        }
+        res.writeHead(200).end(JSON.stringify({ txt: body.txt }));
+        return;
+      }
+
+      res.writeHead(404).end();
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/`, accounts });
+    });
+  });
+}
+
+describe('createAcmeDnsProvider', () => {
+  const received: Received[] = [];
+  let api: Awaited<ReturnType<typeof startAcmeDns>>;
+
+  beforeAll(async () => {
+    api = await startAcmeDns(received);
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => api.server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  it('registers an account with allowed source ranges', async () => {
+    const provider = createAcmeDnsProvider({ server: api.url });
+
+    const account = await provider.register(['192.0.2.0/24']);
+
+    expect(account).toMatchObject({ username: expect.any(String), allowfrom: ['192.0.2.0/24'] });
+    expect(received[0]).toMatchObject({
+      path: '/register',
+      body: { allowfrom: ['192.0.2.0/24'] },
+    });
+  });
+
+  it('updates the TXT value with the domain account credentials', async () => {
+    const account = await createAcmeDnsProvider({ server: api.url }).register();
+    const provider = createAcmeDnsProvider({
+      server: api.url,
+      accounts: { 'Example.com': account },
+    });
+    received.length = 0;
+
+    await provider.createTxt('_acme-challenge.example.com', VALUE);
+
+    expect(received).toHaveLength(1);
+    expect(received[0]!.headers['x-api-user']).toBe(account.username);
+    expect(received[0]!.headers['x-api-key']).toBe(account.password);
+    expect(received[0]!.body).toEqual({ subdomain: account.subdomain, txt: VALUE });
+    await expect(provider.zoneFor('_acme-challenge.example.com')).resolves.toBe('auth.example.org');
+  });
+
+  it('surfaces API errors', async () => {
+    const provider = createAcmeDnsProvider({
+      server: api.url,
+      accounts: {
+        'example.com': {
+          username: 'nobody',
+          password: 'wrong',
+          subdomain: 'x',
+          fulldomain: 'x.auth.example.org',
+        },
+      },
+    });
+
+    await expect(provider.createTxt('_acme-challenge.example.com', VALUE)).rejects.toThrow(
+      'acme-dns update for example.com failed: HTTP 401',
+    );
+  });
+
+  it('requires an account for the domain and treats removal as a no-op', async () => {
+    const provider = createAcmeDnsProvider({ server: api.url, accounts: {} });
+
+    await expect(provider.createTxt('_acme-challenge.other.com', VALUE)).rejects.toThrow(
+      'No acme-dns account configured for other.com',
+    );
+    await expect(provider.removeTxt('_acme-challenge.other.com', VALUE)).resolves.toBeUndefined();
+    expect(received).toHaveLength(0);
+  });
+});
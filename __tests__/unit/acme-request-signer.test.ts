@@ -1,4 +1,5 @@
 import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { webcrypto } from 'crypto';
 import * as jose from 'jose';
 import {
   AcmeRequestSigner,
@@ -7,26 +8,27 @@ import {
 } from '../../src/lib/core/acme-request-signer.js';
 import type { AcmeClient } from '../../src/lib/core/acme-client.js';
 import type { NonceManager } from '../../src/lib/managers/nonce-manager.js';
+import { AccountError } from '../../src/lib/errors/acme-operation-errors.js';
 
 describe('detectJwsAlgorithm', () => {
   it('detects ES256 for P-256 key', async () => {
     const { publicKey } = await jose.generateKeyPair('ES256');
-    expect(await detectJwsAlgorithm(publicKey as CryptoKey)).toBe('ES256');
+    expect(await detectJwsAlgorithm(publicKey as webcrypto.CryptoKey)).toBe('ES256');
   });
 
   it('detects ES384 for P-384 key', async () => {
     const { publicKey } = await jose.generateKeyPair('ES384');
-    expect(await detectJwsAlgorithm(publicKey as CryptoKey)).toBe('ES384');
+    expect(await detectJwsAlgorithm(publicKey as webcrypto.CryptoKey)).toBe('ES384');
   });
 
   it('detects ES512 for P-521 key', async () => {
     const { publicKey } = await jose.generateKeyPair('ES512');
-    expect(await detectJwsAlgorithm(publicKey as CryptoKey)).toBe('ES512');
+    expect(await detectJwsAlgorithm(publicKey as webcrypto.CryptoKey)).toBe('ES512');
   });
 
   it('detects RS256 for RSA key', async () => {
     const { publicKey } = await jose.generateKeyPair('RS256');
-    expect(await detectJwsAlgorithm(publicKey as CryptoKey)).toBe('RS256');
+    expect(await detectJwsAlgorithm(publicKey as webcrypto.CryptoKey)).toBe('RS256');
   });
 });
 
@@ -39,8 +41,8 @@ describe('AcmeRequestSigner', () => {
   beforeEach(async () => {
     const keyPair = await jose.generateKeyPair('ES256');
     keys = {
-      privateKey: keyPair.privateKey as CryptoKey,
-      publicKey: keyPair.publicKey as CryptoKey,
+      privateKey: keyPair.privateKey as webcrypto.CryptoKey,
+      publicKey: keyPair.publicKey as webcrypto.CryptoKey,
     };
 
     mockPost = jest.fn().mockResolvedValue({
@@ -218,4 +220,102 @@ describe('AcmeRequestSigner', () => {
     signer.kid = 'https://acme.test/acct/1';
     expect(signer.kid).toBe('https://acme.test/acct/1');
   });
+
+  it('createKeyChangeJws signs inner JWS with the new key', async () => {
+    const signer = new AcmeRequestSigner(mockClient, keys, {
+      kid: 'https://acme.test/acct/1',
+      nonceManager: mockNonceManager,
+    });
+    const next = await jose.generateKeyPair('ES384');
+    const newKeys: AccountKeys = {
+      privateKey: next.privateKey as webcrypto.CryptoKey,
+      publicKey: next.publicKey as webcrypto.CryptoKey,
+    };
+
+    const inner = await signer.createKeyChangeJws(newKeys, 'https://acme.test/key-change');
+    const verified = await jose.flattenedVerify(inner, newKeys.publicKey);
+    const header = verified.protectedHeader ?? {};
+
+    expect(header.alg).toBe('ES384');
+    expect(header.url).toBe('https://acme.test/key-change');
+    expect(header.jwk).toEqual(await jose.exportJWK(newKeys.publicKey));
+    expect(header).not.toHaveProperty('nonce');
+    expect(header).not.toHaveProperty('kid');
+
+    const payload = JSON.parse(new TextDecoder().decode(verified.payload));
+    expect(payload.account).toBe('https://acme.test/acct/1');
+    expect(payload.oldKey).toEqual(await jose.exportJWK(keys.publicKey));
+  });
+
+  it('replaceKeys swaps keys and resets cached algorithm and thumbprint', async () => {
+    const signer = new AcmeRequestSigner(mockClient, keys, {
+      kid: 'https://acme.test/acct/1',
+      nonceManager: mockNonceManager,
+    });
+    const before = await signer.keyAuthorization('tok');
+
+    const next = await jose.generateKeyPair('ES384');
+    const newKeys: AccountKeys = {
+      privateKey: next.privateKey as webcrypto.CryptoKey,
+      publicKey: next.publicKey as webcrypto.CryptoKey,
+    };
+    signer.replaceKeys(newKeys);
+
+    expect(signer.keys).toBe(newKeys);
+    expect(signer.kid).toBe('https://acme.test/acct/1');
+    expect(await signer.keyAuthorization('tok')).not.toBe(before);
+
+    await signer.signedPost('https://acme.test/order', null);
+    const jws = mockPost.mock.calls[0][1] as Record<string, string>;
+    const header = JSON.parse(Buffer.from(jws.protected, 'base64url').toString());
+    expect(header.alg).toBe('ES384');
+  });
+
+  it('signs every nonce retry with the key snapshot taken before replaceKeys', async () => {
+    const signer = new AcmeRequestSigner(mockClient, keys, {
+      kid: 'https://acme.test/acct/1',
+      nonceManager: mockNonceManager,
+    });
+    const next = await jose.generateKeyPair('RS256');
+    const newKeys: AccountKeys = {
+      privateKey: next.privateKey as webcrypto.CryptoKey,
+      publicKey: next.publicKey as webcrypto.CryptoKey,
+    };
+    (mockNonceManager.withNonceRetry as jest.Mock).mockImplementationOnce(
+      async (_ns: unknown, fn: unknown) => {
+        const attempt = fn as (nonce: string) => Promise<unknown>;
+        await attempt('nonce-1');
+        // Key rollover lands between the badNonce failure and the retry
+        signer.replaceKeys(newKeys);
+        return attempt('nonce-2');
+      },
+    );
+
+    await signer.signedPost('https://acme.test/order', null);
+
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    for (const [, jws] of mockPost.mock.calls) {
+      const verified = await jose.flattenedVerify(jws as jose.FlattenedJWS, keys.publicKey);
+      expect(verified.protectedHeader?.alg).toBe('ES256');
+    }
+
+    await signer.signedPost('https://acme.test/order', null);
+    const jws = mockPost.mock.calls[2]![1] as jose.FlattenedJWS;
+    const verified = await jose.flattenedVerify(jws, newKeys.publicKey);
+    expect(verified.protectedHeader?.alg).toBe('RS256');
+  });
+
+  it('signedPost fails fast after the account is deactivated', async () => {
+    const signer = new AcmeRequestSigner(mockClient, keys, {
+      kid: 'https://acme.test/acct/1',
+      nonceManager: mockNonceManager,
+    });
+
+    signer.markDeactivated();
+
+    expect(signer.isDeactivated).toBe(true);
+    await expect(signer.signedPost('https://acme.test/order', null)).rejects.toThrow(AccountError);
+    expect(mockNonceManager.withNonceRetry).not.toHaveBeenCalled();
+    expect(mockPost).not.toHaveBeenCalled();
+  });
 });
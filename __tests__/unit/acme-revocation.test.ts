@@ -0,0 +1,111 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { webcrypto } from 'crypto';
+import * as jose from 'jose';
+import {
+  buildRevocationPayload,
+  revokeCertificateWithKey,
+} from '../../src/lib/core/acme-revocation.js';
+import type { AcmeClient } from '../../src/lib/core/acme-client.js';
+import { UnauthorizedError } from '../../src/lib/errors/acme-server-errors.js';
+
+const CERT_PEM = '-----BEGIN CERTIFICATE-----\nAQID\n-----END CERTIFICATE-----';
+
+describe('buildRevocationPayload', () => {
+  it('encodes the certificate as base64url DER and omits an absent reason', () => {
+    expect(buildRevocationPayload(CERT_PEM)).toEqual({ certificate: 'AQID' });
+  });
+
+  it('includes the reason code when given', () => {
+    expect(buildRevocationPayload(CERT_PEM, 1)).toEqual({ certificate: 'AQID', reason: 1 });
+  });
+});
+
+describe('revokeCertificateWithKey', () => {
+  let mockClient: AcmeClient;
+  let mockPost: jest.Mock;
+
+  beforeEach(() => {
+    mockPost = jest.fn().mockResolvedValue({ statusCode: 200, headers: {}, body: {} });
+    mockClient = {
+      directoryUrl: 'https://acme.test/directory',
+      getDirectory: jest.fn().mockResolvedValue({
+        newNonce: 'https://acme.test/new-nonce',
+        newAccount: 'https://acme.test/new-account',
+        newOrder: 'https://acme.test/new-order',
+        revokeCert: 'https://acme.test/revoke-cert',
+      }),
+      getHttp: jest.fn().mockReturnValue({
+        post: mockPost,
+        head: jest.fn().mockResolvedValue({
+          statusCode: 200,
+          headers: { 'replay-nonce': 'nonce-1' },
+          body: '',
+        }),
+      }),
+      getDefaultNonceOptions: jest.fn().mockReturnValue({}),
+    } as unknown as AcmeClient;
+  });
+
+  function sentJws(): { url: string; header: Record<string, unknown>; jws: jose.FlattenedJWS } {
+    const [url, jws] = mockPost.mock.calls[0] as [string, jose.FlattenedJWS];
+    const header = JSON.parse(Buffer.from(jws.protected as string, 'base64url').toString());
+    return { url, header, jws };
+  }
+
+  it('signs with a jwk header derived from a PEM certificate key', async () => {
+    const { privateKey, publicKey } = await jose.generateKeyPair('ES256', { extractable: true });
+    const keyPem = await jose.exportPKCS8(privateKey);
+
+    await revokeCertificateWithKey(mockClient, CERT_PEM, keyPem, 4);
+
+    const { url, header, jws } = sentJws();
+    expect(url).toBe('https://acme.test/revoke-cert');
+    expect(header).not.toHaveProperty('kid');
+    expect(header.alg).toBe('ES256');
+    expect(header.jwk).toEqual(await jose.exportJWK(publicKey));
+    expect((header.jwk as Record<string, unknown>).d).toBeUndefined();
+
+    const { payload } = await jose.flattenedVerify(
+      jws,
+      await jose.importJWK(header.jwk as jose.JWK, 'ES256'),
+    );
+    expect(JSON.parse(Buffer.from(payload).toString())).toEqual({ certificate: 'AQID', reason: 4 });
+  });
+
+  it('accepts an extractable CryptoKey', async () => {
+    const keys = (await webcrypto.subtle.generateKey(
+      {
+        name: 'RSASSA-PKCS1-v1_5',
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: 'SHA-256',
+      },
+      true,
+      ['sign', 'verify'],
+    )) as webcrypto.CryptoKeyPair;
+
+    await revokeCertificateWithKey(mockClient, CERT_PEM, keys.privateKey);
+
+    const { header, jws } = sentJws();
+    expect(header.alg).toBe('RS256');
+    expect(header.jwk).toMatchObject({ kty: 'RSA' });
+    await expect(jose.flattenedVerify(jws, keys.publicKey)).resolves.toBeDefined();
+  });
+
+  it('maps a problem response to a typed error', async () => {
+    mockPost.mockResolvedValueOnce({
+      statusCode: 403,
+      headers: {},
+      body: {
+        type: 'urn:ietf:params:acme:error:unauthorized',
+        detail: 'Key does not match certificate',
+      },
+    });
+    const { privateKey } = await jose.generateKeyPair('ES256', { extractable: true });
+    const keyPem = await jose.exportPKCS8(privateKey);
+
+    await expect(revokeCertificateWithKey(mockClient, CERT_PEM, keyPem)).rejects.toBeInstanceOf(
+      UnauthorizedError,
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { DnsResolver } from '../../src/lib/dns/resolver.js';
+
+// --- Mock dns/promises BEFORE importing the CAA checker ---
+
+type CaaAnswer = Array<Record<string, string | number>>;
+let zones: Record<string, CaaAnswer> = {};
+
+const mockResolveCaa = jest.fn(async (name: string) => {
+  const answer = zones[name];
+  if (!answer) throw Object.assign(new Error(`queryCaa ENODATA ${name}`), { code: 'ENODATA' });
+  return answer;
+});
+
+jest.unstable_mockModule('dns/promises', () => ({
+  resolveCaa: mockResolveCaa,
+  resolveTxt: jest.fn(),
+  resolveNs: jest.fn(),
+  resolve4: jest.fn(),
+  resolve6: jest.fn(),
+  resolveCname: jest.fn(),
+  Resolver: jest.fn(),
+}));
+
+const { checkCaa, parseCaaIssuer } = await import('../../src/lib/dns/caa.js');
+
+const DIRECTORY = { meta: { caaIdentities: ['letsencrypt.org'] } };
+const ACCOUNT = 'https://acme-v02.api.letsencrypt.org/acme/acct/1234';
+
+describe('parseCaaIssuer', () => {
+  it('splits issuer and parameters', () => {
+    expect(
+      parseCaaIssuer(`LetsEncrypt.org; accounturi=${ACCOUNT}; validationmethods=dns-01,http-01`),
+    ).toEqual({
+      issuer: 'letsencrypt.org',
+      parameters: { accounturi: ACCOUNT, validationmethods: 'dns-01,http-01' },
+    });
+  });
+
+  it('returns an empty issuer for ";"', () => {
+    expect(parseCaaIssuer(';')).toEqual({ issuer: '', parameters: {} });
+  });
+});
+
+describe('checkCaa', () => {
+  beforeEach(() => {
+    zones = {};
+    mockResolveCaa.mockClear();
+  });
+
+  it('allows issuance when no CAA records exist up the tree', async () => {
+    const result = await checkCaa('www.example.com', DIRECTORY);
+
+    expect(result).toMatchObject({ allowed: true, properties: [] });
+    expect(result.relevantName).toBeUndefined();
+    expect(mockResolveCaa.mock.calls.map(([name]) => name)).toEqual([
+      'www.example.com',
+      'example.com',
+      'com',
+    ]);
+  });
+
+  it('uses the closest record set and reports iodef', async () => {
+    zones['example.com'] = [
+      { critical: 0, issue: 'letsencrypt.org' },
+      { critical: 0, iodef: 'mailto:security@example.com' },
+    ];
+
+    const result = await checkCaa('a.b.example.com', DIRECTORY);
+
+    expect(result).toMatchObject({
+      allowed: true,
+      relevantName: 'example.com',
+      iodef: ['mailto:security@example.com'],
+    });
+    expect(result.validationMethods).toBeUndefined();
+  });
+
+  it('denies issuance when only other CAs are authorized', async () => {
+    zones['example.com'] = [{ critical: 0, issue: 'pki.goog' }];
+
+    const result = await checkCaa('example.com', DIRECTORY);
+
+    expect(result.allowed).toBe(false);
+    expect(result.reasons).toEqual(['issue "pki.goog" does not authorize letsencrypt.org']);
+  });
+
+  it('prefers issuewild for wildcard identifiers', async () => {
+    zones['example.com'] = [
+      { critical: 0, issue: 'letsencrypt.org' },
+      { critical: 0, issuewild: ';' },
+    ];
+
+    await expect(checkCaa('example.com', DIRECTORY)).resolves.toMatchObject({ allowed: true });
+    await expect(checkCaa('*.example.com', DIRECTORY)).resolves.toMatchObject({
+      allowed: false,
+      reasons: ['issuewild ";" forbids issuance'],
+    });
+  });
+
+  it('enforces accounturi bindings (RFC 8657)', async () => {
+    zones['example.com'] = [{ critical: 0, issue: `letsencrypt.org; accounturi=${ACCOUNT}` }];
+
+    await expect(
+      checkCaa('example.com', DIRECTORY, { accountUri: ACCOUNT }),
+    ).resolves.toMatchObject({ allowed: true });
+    await expect(
+      checkCaa('example.com', DIRECTORY, { accountUri: `${ACCOUNT}9` }),
+    ).resolves.toMatchObject({ allowed: false });
+    await expect(checkCaa('example.com', DIRECTORY)).resolves.toMatchObject({ allowed: false });
+  });
+
+  it('enforces and reports validationmethods (RFC 8657)', async () => {
+    zones['example.com'] = [{ critical: 0, issue: 'letsencrypt.org; validationmethods=dns-01' }];
+
+    await expect(checkCaa('example.com', DIRECTORY)).resolves.toMatchObject({
+      allowed: true,
+      validationMethods: ['dns-01'],
+    });
+    const http = await checkCaa('example.com', DIRECTORY, { challengeType: 'http-01' });
+    expect(http.allowed).toBe(false);
+    expect(http.reasons[0]).toContain('does not permit http-01');
+  });
+
+  it('treats unknown critical properties as a refusal', async () => {
+    zones['example.com'] = [
+      { critical: 0, issue: 'letsencrypt.org' },
+      { critical: 128, tbs: 'unknown' },
+    ];
+
+    const result = await checkCaa('example.com', DIRECTORY);
+
+    expect(result.allowed).toBe(false);
+    expect(result.reasons[0]).toContain('Unknown critical CAA property "tbs"');
+  });
+
+  it('cannot match an issuer without caaIdentities', async () => {
+    zones['example.com'] = [{ critical: 0, issue: 'letsencrypt.org' }];
+
+    const result = await checkCaa('example.com', { meta: {} });
+
+    expect(result.allowed).toBe(false);
+    expect(result.reasons[0]).toContain('advertises no caaIdentities');
+  });
+
+  it('skips IP address identifiers', async () => {
+    await expect(checkCaa('192.0.2.1', DIRECTORY)).resolves.toMatchObject({ allowed: true });
+    expect(mockResolveCaa).not.toHaveBeenCalled();
+  });
+
+  it('propagates lookup failures other than NODATA', async () => {
+    mockResolveCaa.mockImplementationOnce(async () => {
+      throw Object.assign(new Error('queryCaa ESERVFAIL'), { code: 'ESERVFAIL' });
+    });
+
+    await expect(checkCaa('example.com', DIRECTORY)).rejects.toThrow('ESERVFAIL');
+  });
+
+  it('looks up records through the resolver option', async () => {
+    const lookups: string[] = [];
+    const fail = (name: string): Promise<never> =>
+      Promise.reject(Object.assign(new Error(`ENODATA ${name}`), { code: 'ENODATA' }));
+    const resolver: DnsResolver = {
+      resolveTxt: fail,
+      resolveNs: fail,
+      resolve4: fail,
+      resolve6: fail,
+      resolveCname: fail,
+      resolveCaa: async (name) => {
+        lookups.push(name);
+        return name === 'example.com' ? [{ critical: 0, issue: 'letsencrypt.org' }] : fail(name);
+      },
+    };
+
+    const result = await checkCaa('www.example.com', DIRECTORY, { resolver });
+
+    expect(result).toMatchObject({ allowed: true, relevantName: 'example.com' });
+    expect(lookups).toEqual(['www.example.com', 'example.com']);
+    expect(mockResolveCaa).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { webcrypto } from 'crypto';
+import * as x509 from '@peculiar/x509';
+import {
+  getAriCertificateId,
+  parseCertificatePem,
+  splitPemChain,
+} from '../../src/lib/crypto/certificate.js';
+
+const KEY_ID = '69882ee2c2b5f1f0af6c17cd7fc2b41dd8f52e52';
+
+async function makeCertPem(serialNumber: string, withAki = true): Promise<string> {
+  const alg = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+  const keys = (await webcrypto.subtle.generateKey(alg, true, [
+    'sign',
+    'verify',
+  ])) as webcrypto.CryptoKeyPair;
+  const cert = await x509.X509CertificateGenerator.create({
+    serialNumber,
+    subject: 'CN=example.com',
+    issuer: 'CN=Test Issuer',
+    notBefore: new Date('2025-01-01T00:00:00Z'),
+    notAfter: new Date('2025-04-01T00:00:00Z'),
+    signingAlgorithm: alg,
+    publicKey: keys.publicKey,
+    signingKey: keys.privateKey,
+    extensions: withAki ? [new x509.AuthorityKeyIdentifierExtension(KEY_ID)] : [],
+  });
+  return cert.toString('pem');
+}
+
+describe('certificate helpers', () => {
+  it('splitPemChain returns each certificate block', async () => {
+    const leaf = await makeCertPem('01');
+    const issuer = await makeCertPem('02');
+    const chain = splitPemChain(`${leaf}\n${issuer}\n`);
+    expect(chain).toHaveLength(2);
+    expect(chain[0]).toBe(leaf.trim());
+  });
+
+  it('parseCertificatePem throws without a PEM block', () => {
+    expect(() => parseCertificatePem('not a certificate')).toThrow('No PEM certificate');
+  });
+
+  it('getAriCertificateId joins AKI keyIdentifier and serial', async () => {
+    const pem = await makeCertPem('0123456789');
+    const expectedKeyId = Buffer.from(KEY_ID, 'hex').toString('base64url');
+    const expectedSerial = Buffer.from('0123456789', 'hex').toString('base64url');
+    expect(getAriCertificateId(pem)).toBe(`${expectedKeyId}.${expectedSerial}`);
+  });
+
+  it('getAriCertificateId keeps the DER leading zero of the serial', async () => {
+    const pem = await makeCertPem('8f6543');
+    const [, serial] = getAriCertificateId(pem).split('.');
+    expect(Buffer.from(serial, 'base64url').toString('hex')).toBe('008f6543');
+  });
+
+  it('getAriCertificateId uses the leaf of a chain', async () => {
+    const leaf = await makeCertPem('0a');
+    const issuer = await makeCertPem('0b');
+    expect(getAriCertificateId(`${leaf}\n${issuer}`)).toBe(getAriCertificateId(leaf));
+  });
+
+  it('getAriCertificateId throws without an Authority Key Identifier', async () => {
+    const pem = await makeCertPem('01', false);
+    expect(() => getAriCertificateId(pem)).toThrow('Authority Key Identifier');
+  });
+});
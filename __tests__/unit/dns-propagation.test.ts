@@ -0,0 +1,130 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// --- Mock dns/promises BEFORE importing the waiter ---
+
+/** TXT values served per name server IP */
+let served: Record<string, string[][] | Error> = {};
+
+const mockResolveNs = jest.fn<(name: string) => Promise<string[]>>();
+const mockResolve4 = jest.fn<(name: string) => Promise<string[]>>();
+const mockResolve6 = jest.fn<(name: string) => Promise<string[]>>();
+
+const MockResolver = jest.fn().mockImplementation(() => {
+  let servers: string[] = [];
+  return {
+    setServers: (list: string[]) => {
+      servers = list;
+    },
+    resolveTxt: async () => {
+      const answer = served[servers[0]!];
+      if (!answer || answer instanceof Error) throw answer ?? new Error('ENODATA');
+      return answer;
+    },
+    resolveCname: async () => {
+      throw new Error('ENODATA');
+    },
+  };
+});
+
+jest.unstable_mockModule('dns/promises', () => ({
+  resolveNs: mockResolveNs,
+  resolveTxt: jest.fn(),
+  resolve4: mockResolve4,
+  resolve6: mockResolve6,
+  resolveCname: jest.fn(),
+  resolveCaa: jest.fn(),
+  Resolver: MockResolver,
+}));
+
+const { createDnsPropagationWaiter } = await import('../../src/lib/challenges/dns-propagation.js');
+const { resolveAcmeTxtPerNameserver } =
+  await import('../../src/lib/challenges/dns-txt-validator.js');
+
+const TARGET = '_acme-challenge.example.com';
+const VALUE = Buffer.alloc(32, 7).toString('base64url');
+const STALE = Buffer.alloc(32, 8).toString('base64url');
+
+// example.com has three name servers: 192.0.2.1, 192.0.2.2 and 192.0.2.3
+beforeEach(() => {
+  mockResolveNs.mockImplementation(async (name: string) => {
+    if (name === 'example.com') return ['ns1.example.com', 'ns2.example.com', 'ns3.example.com'];
+    throw new Error('ENOTFOUND');
+  });
+  mockResolve4.mockImplementation(async (ns: string) => [
+    { 'ns1.example.com': '192.0.2.1', 'ns2.example.com': '192.0.2.2' }[ns] ?? '192.0.2.3',
+  ]);
+  mockResolve6.mockRejectedValue(new Error('ENODATA'));
+});
+
+describe('resolveAcmeTxtPerNameserver', () => {
+  it('reports each authoritative server separately', async () => {
+    served = { '192.0.2.1': [[VALUE]], '192.0.2.2': [[STALE]], '192.0.2.3': new Error('ETIMEOUT') };
+
+    const result = await resolveAcmeTxtPerNameserver(TARGET, VALUE);
+
+    expect(result.ok).toBe(false);
+    expect(result.zone).toBe('example.com');
+    expect(result.servers.map((s) => [s.server, s.ok])).toEqual([
+      ['192.0.2.1', true],
+      ['192.0.2.2', false],
+      ['192.0.2.3', false],
+    ]);
+    expect(result.allValues).toEqual([VALUE, STALE]);
+    expect(result.reasons).toEqual([
+      `192.0.2.2: '${STALE}' doesn't match the expected value`,
+      '192.0.2.3: Error: ETIMEOUT',
+    ]);
+  });
+
+  it('succeeds when every server serves the value', async () => {
+    served = { '192.0.2.1': [[VALUE]], '192.0.2.2': [[VALUE]], '192.0.2.3': [[VALUE]] };
+
+    const result = await resolveAcmeTxtPerNameserver(TARGET, VALUE);
+
+    expect(result).toMatchObject({ ok: true, matched: VALUE });
+    expect(result.reasons).toBeUndefined();
+  });
+});
+
+describe('createDnsPropagationWaiter', () => {
+  it('waits until all name servers serve the value', async () => {
+    served = { '192.0.2.1': [[VALUE]], '192.0.2.2': [[STALE]], '192.0.2.3': [[VALUE]] };
+    const onProgress = jest.fn((progress: { attempt: number; satisfied: number }) => {
+      // The lagging secondary catches up after the first check
+      if (progress.attempt === 1) served['192.0.2.2'] = [[VALUE]];
+    });
+    const waitFor = createDnsPropagationWaiter({ intervalMs: 1, timeoutMs: 1000, onProgress });
+
+    await waitFor({ target: TARGET, value: VALUE });
+
+    expect(onProgress.mock.calls.map(([p]) => p)).toEqual([
+      expect.objectContaining({ attempt: 1, satisfied: 2, required: 3, done: false }),
+      expect.objectContaining({ attempt: 2, satisfied: 3, required: 3, done: true }),
+    ]);
+  });
+
+  it('accepts a quorum when not all servers are required', async () => {
+    served = { '192.0.2.1': [[VALUE]], '192.0.2.2': [[VALUE]], '192.0.2.3': [[STALE]] };
+    const onProgress = jest.fn();
+    const waitFor = createDnsPropagationWaiter({
+      requireAllNameservers: false,
+      intervalMs: 1,
+      timeoutMs: 1000,
+      onProgress,
+    });
+
+    await waitFor({ target: TARGET, value: VALUE });
+
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    expect(onProgress.mock.calls[0]![0]).toMatchObject({ satisfied: 2, required: 2 });
+  });
+
+  it('throws with the last reasons when the timeout is reached', async () => {
+    served = { '192.0.2.1': [[VALUE]], '192.0.2.2': [[STALE]], '192.0.2.3': [[VALUE]] };
+    const waitFor = createDnsPropagationWaiter({ intervalMs: 5, timeoutMs: 20 });
+
+    await expect(waitFor({ target: TARGET, value: VALUE })).rejects.toThrow(
+      `TXT record ${TARGET} not propagated after 0s (2/3 name servers): 192.0.2.2: '${STALE}'`,
+    );
+  });
+});
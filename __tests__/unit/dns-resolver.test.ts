@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import { createSocket, type Socket } from 'dgram';
+import type { AddressInfo } from 'net';
+import {
+  createDohResolver,
+  createPinnedResolver,
+  type DnsResolver,
+} from '../../src/lib/dns/resolver.js';
+import {
+  findZoneWithNs,
+  resolveAndValidateAcmeTxt,
+  resolveAndValidateAcmeTxtAuthoritative,
+  resolveAcmeTxtPerNameserver,
+} from '../../src/lib/challenges/dns-txt-validator.js';
+import { checkCaa } from '../../src/lib/dns/caa.js';
+import {
+  DNS_CLASS,
+  DNS_RCODE,
+  DNS_TYPE,
+  decodeMessage,
+  encodeMessage,
+  encodeName,
+  encodeTxtData,
+  type DnsRecord,
+} from '../../src/lib/dns/wire.js';
+
+const VALUE = 'gfj9Xq-Xp2i3fkaV0Y-GSC8GFaBBa0ClRsKkHM0EKqE';
+const STALE = Buffer.alloc(32, 8).toString('base64url');
+
+/** Answers keyed by `<name>/<type>`; a number is an rcode */
+type Zone = Record<string, DnsRecord[] | number>;
+
+function record(name: string, type: number, data: Buffer): DnsRecord {
+  return { name, type, class: DNS_CLASS.IN, ttl: 60, data };
+}
+
+/** CAA RDATA: flags, tag length, tag, value */
+function caaData(flags: number, tag: string, value: string): Buffer {
+  return Buffer.concat([Buffer.from([flags, tag.length]), Buffer.from(tag), Buffer.from(value)]);
+}
+
+/** Build the response to a query from the zone table */
+function respond(query: Buffer, zone: Zone): Buffer {
+  const request = decodeMessage(query);
+  const [question] = request.questions;
+  const entry = zone[`${question!.name}/${question!.type}`] ?? [];
+  const rcode = typeof entry === 'number' ? entry : DNS_RCODE.NOERROR;
+  return encodeMessage({
+    id: request.id,
+    flags: 0x8000 | 0x0100 | 0x0080 | rcode, // QR, RD, RA
+    questions: request.questions,
+    answers: typeof entry === 'number' ? [] : entry,
+    authorities: [],
+    additionals: [],
+  });
+}
+
+interface DohRequest {
+  headers: IncomingMessage['headers'];
+  id: number;
+  flags: number;
+}
+
+/** Minimal RFC 8484 endpoint */
+function startDoh(zone: Zone, received: DohRequest[]): Promise<{ server: Server; url: string }> {
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const query = Buffer.concat(chunks);
+      const { id, flags } = decodeMessage(query);
+      received.push({ headers: req.headers, id, flags });
+      if (req.url !== '/dns-query') {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/dns-message' }).end(respond(query, zone));
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/dns-query` });
+    });
+  });
+}
+
+describe('createDohResolver', () => {
+  const received: DohRequest[] = [];
+  const zone: Zone = {
+    '_acme-challenge.example.com/16': [
+      record('_acme-challenge.example.com', DNS_TYPE.TXT, encodeTxtData(VALUE)),
+    ],
+    '_acme-challenge.alias.com/16': [
+      record('_acme-challenge.alias.com', DNS_TYPE.CNAME, encodeName('sub.auth.example.org')),
+      record('sub.auth.example.org', DNS_TYPE.TXT, encodeTxtData(STALE)),
+    ],
+    'example.com/2': [
+      record('example.com', DNS_TYPE.NS, encodeName('ns1.example.com')),
+      record('example.com', DNS_TYPE.NS, encodeName('ns2.example.com')),
+    ],
+    'ns1.example.com/1': [record('ns1.example.com', DNS_TYPE.A, Buffer.from([192, 0, 2, 1]))],
+    'ns1.example.com/28': [
+      record(
+        'ns1.example.com',
+        DNS_TYPE.AAAA,
+        Buffer.from('20010db8000000000000000000000053', 'hex'),
+      ),
+    ],
+    'example.com/257': [
+      record('example.com', DNS_TYPE.CAA, caaData(0, 'issue', 'letsencrypt.org')),
+      record('example.com', DNS_TYPE.CAA, caaData(128, 'tbs', 'unknown')),
+    ],
+    'missing.example.com/16': DNS_RCODE.NXDOMAIN,
+    'broken.example.com/16': DNS_RCODE.SERVFAIL,
+  };
+  let doh: Awaited<ReturnType<typeof startDoh>>;
+  let resolver: DnsResolver;
+
+  beforeAll(async () => {
+    doh = await startDoh(zone, received);
+    resolver = createDohResolver({ url: doh.url });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => doh.server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  it('sends RFC 8484 POST requests with ID 0 and recursion desired', async () => {
+    await expect(resolver.resolveTxt('_acme-challenge.example.com.')).resolves.toEqual([[VALUE]]);
+
+    expect(received).toHaveLength(1);
+    expect(received[0]!.headers['content-type']).toBe('application/dns-message');
+    expect(received[0]!.headers.accept).toBe('application/dns-message');
+    expect(received[0]!.id).toBe(0);
+    expect(received[0]!.flags & 0x0100).toBe(0x0100);
+  });
+
+  it('decodes NS, A and AAAA answers', async () => {
+    await expect(resolver.resolveNs('example.com')).resolves.toEqual([
+      'ns1.example.com',
+      'ns2.example.com',
+    ]);
+    await expect(resolver.resolve4('ns1.example.com')).resolves.toEqual(['192.0.2.1']);
+    await expect(resolver.resolve6('ns1.example.com')).resolves.toEqual(['2001:db8::53']);
+  });
+
+  it('decodes CAA answers like dns.resolveCaa', async () => {
+    await expect(resolver.resolveCaa('example.com')).resolves.toEqual([
+      { critical: 0, issue: 'letsencrypt.org' },
+      { critical: 128, tbs: 'unknown' },
+    ]);
+  });
+
+  it('can be passed to the CAA check', async () => {
+    const result = await checkCaa(
+      'www.example.com',
+      { meta: { caaIdentities: ['letsencrypt.org'] } },
+      { resolver },
+    );
+
+    expect(result).toMatchObject({ relevantName: 'example.com', allowed: false });
+    expect(result.reasons[0]).toContain('Unknown critical CAA property "tbs"');
+  });
+
+  it('returns only records of the queried type when the answer includes a CNAME', async () => {
+    await expect(resolver.resolveTxt('_acme-challenge.alias.com')).resolves.toEqual([[STALE]]);
+  });
+
+  it('rejects with Node-style error codes', async () => {
+    await expect(resolver.resolveTxt('missing.example.com')).rejects.toMatchObject({
+      code: 'ENOTFOUND',
+      message: 'queryTxt ENOTFOUND missing.example.com',
+    });
+    await expect(resolver.resolveTxt('broken.example.com')).rejects.toMatchObject({
+      code: 'ESERVFAIL',
+    });
+    await expect(resolver.resolveCname('example.com')).rejects.toMatchObject({
+      code: 'ENODATA',
+    });
+  });
+
+  it('surfaces HTTP errors', async () => {
+    const wrongPath = createDohResolver({ url: doh.url.replace('/dns-query', '/other') });
+
+    await expect(wrongPath.resolveTxt('example.com')).rejects.toThrow(
+      'DoH query for example.com failed: HTTP 404',
+    );
+  });
+
+  it('can be passed to the recursive validator', async () => {
+    await expect(resolveAndValidateAcmeTxt('example.com', VALUE, { resolver })).resolves.toEqual({
+      ok: true,
+      matched: VALUE,
+      allValues: [VALUE],
+    });
+  });
+});
+
+describe('createPinnedResolver', () => {
+  let socket: Socket;
+  let port: number;
+
+  beforeAll(async () => {
+    socket = createSocket('udp4');
+    socket.on('message', (query, peer) => {
+      const zone: Zone = {
+        '_acme-challenge.example.com/16': [
+          record('_acme-challenge.example.com', DNS_TYPE.TXT, encodeTxtData(VALUE)),
+        ],
+        'example.com/257': [
+          record('example.com', DNS_TYPE.CAA, caaData(0, 'issue', 'letsencrypt.org')),
+        ],
+      };
+      socket.send(respond(query, zone), peer.port, peer.address);
+    });
+    await new Promise<void>((resolve) => socket.bind(0, '127.0.0.1', () => resolve()));
+    port = (socket.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => socket.close(() => resolve()));
+  });
+
+  it('sends queries to the given server', async () => {
+    const resolver = createPinnedResolver({ servers: [`127.0.0.1:${port}`], tries: 1 });
+
+    await expect(resolver.resolveTxt('_acme-challenge.example.com')).resolves.toEqual([[VALUE]]);
+    await expect(resolver.resolveCaa('example.com')).resolves.toEqual([
+      { critical: 0, issue: 'letsencrypt.org' },
+    ]);
+  });
+
+  it('backs forServers of the DoH resolver', async () => {
+    const doh = createDohResolver({ url: 'https://doh.invalid/dns-query', timeoutMs: 2000 });
+
+    const direct = doh.forServers!([`127.0.0.1:${port}`]);
+
+    await expect(direct.resolveTxt('_acme-challenge.example.com')).resolves.toEqual([[VALUE]]);
+  });
+});
+
+describe('injected resolvers in the authoritative validators', () => {
+  /** In-memory resolver: recursive data plus per-name-server TXT answers */
+  function fakeResolver(served: Record<string, string[][]>, server = 'recursive'): DnsResolver {
+    const fail = (name: string): Promise<never> =>
+      Promise.reject(Object.assign(new Error(`ENODATA ${name}`), { code: 'ENODATA' }));
+    return {
+      resolveNs: async (name) =>
+        name === 'example.com' ? ['ns1.example.com', 'ns2.example.com'] : fail(name),
+      resolve4: async (name) => [name === 'ns1.example.com' ? '192.0.2.1' : '192.0.2.2'],
+      resolve6: fail,
+      resolveCname: fail,
+      resolveCaa: fail,
+      resolveTxt: async (name) => served[server] ?? fail(name),
+      forServers: (servers) => fakeResolver(served, servers.join(',')),
+    };
+  }
+
+  it('uses the resolver for zone discovery and forServers for authoritative queries', async () => {
+    const resolver = fakeResolver({ '192.0.2.1,192.0.2.2': [[VALUE]] });
+
+    await expect(findZoneWithNs('_acme-challenge.example.com', resolver)).resolves.toBe(
+      'example.com',
+    );
+    await expect(
+      resolveAndValidateAcmeTxtAuthoritative('_acme-challenge.example.com', VALUE, { resolver }),
+    ).resolves.toMatchObject({
+      ok: true,
+      zone: 'example.com',
+      nsIPs: ['192.0.2.1', '192.0.2.2'],
+    });
+  });
+
+  it('queries each name server through forServers', async () => {
+    const resolver = fakeResolver({ '192.0.2.1': [[VALUE]], '192.0.2.2': [[STALE]] });
+
+    const result = await resolveAcmeTxtPerNameserver('_acme-challenge.example.com', VALUE, {
+      resolver,
+    });
+
+    expect(result.servers.map((s) => [s.server, s.ok])).toEqual([
+      ['192.0.2.1', true],
+      ['192.0.2.2', false],
+    ]);
+  });
+});
@@ -7,10 +7,13 @@ const mockResolveTxt = jest.fn<(name: string) => Promise<string[][]>>();
 const mockResolve4 = jest.fn<(name: string) => Promise<string[]>>();
 const mockResolve6 = jest.fn<(name: string) => Promise<string[]>>();
 const mockResolverResolveTxt = jest.fn<(name: string) => Promise<string[][]>>();
+const mockResolverResolveCname = jest.fn<(name: string) => Promise<string[]>>();
+const mockSetServers = jest.fn<(servers: string[]) => void>();
 
 const MockResolver = jest.fn().mockImplementation(() => ({
-  setServers: jest.fn(),
+  setServers: mockSetServers,
   resolveTxt: mockResolverResolveTxt,
+  resolveCname: mockResolverResolveCname,
 }));
 
 jest.unstable_mockModule('dns/promises', () => ({
@@ -18,6 +21,8 @@ jest.unstable_mockModule('dns/promises', () => ({
   resolveTxt: mockResolveTxt,
   resolve4: mockResolve4,
   resolve6: mockResolve6,
+  resolveCname: jest.fn(),
+  resolveCaa: jest.fn(),
   Resolver: MockResolver,
 }));
 
@@ -272,6 +277,9 @@ describe('resolveAndValidateAcmeTxtAuthoritative', () => {
     mockResolve4.mockReset();
     mockResolve6.mockReset();
     mockResolverResolveTxt.mockReset();
+    mockResolverResolveCname.mockReset();
+    mockResolverResolveCname.mockRejectedValue(new Error('ENODATA'));
+    mockSetServers.mockReset();
     MockResolver.mockClear();
   });
 
@@ -342,6 +350,76 @@ describe('resolveAndValidateAcmeTxtAuthoritative', () => {
     expect(result.ok).toBe(false);
     expect(result.reasons![0]).toContain('Failed to resolve TXT');
   });
+  describe('CNAME delegation', () => {
+    const zones: Record<string, string[]> = {
+      'example.com': ['ns1.example.com'],
+      'auth.acme-dns.io': ['ns1.auth.acme-dns.io'],
+    };
+    const ips: Record<string, string[]> = {
+      'ns1.example.com': ['1.2.3.4'],
+      'ns1.auth.acme-dns.io': ['5.6.7.8'],
+    };
+
+    beforeEach(() => {
+      mockResolveNs.mockImplementation(async (name: string) => {
+        if (zones[name]) return zones[name];
+        throw new Error('ENOTFOUND');
+      });
+      mockResolve4.mockImplementation(async (ns: string) => ips[ns] ?? []);
+      mockResolve6.mockRejectedValue(new Error('ENODATA'));
+    });
+
+    it('follows the CNAME and validates TXT at the target zone', async () => {
+      const token = makeValidToken(2);
+      mockResolverResolveTxt.mockImplementation(async (name: string) => {
+        if (name === 'abc123.auth.acme-dns.io') return [[token]];
+        throw new Error('ENODATA');
+      });
+      mockResolverResolveCname.mockImplementation(async (name: string) => {
+        if (name === '_acme-challenge.example.com') return ['abc123.auth.acme-dns.io.'];
+        throw new Error('ENODATA');
+      });
+
+      const result = await resolveAndValidateAcmeTxtAuthoritative(
+        '_acme-challenge.example.com',
+        token,
+      );
+
+      expect(result.ok).toBe(true);
+      expect(result.cnameChain).toEqual(['abc123.auth.acme-dns.io']);
+      expect(result.zone).toBe('auth.acme-dns.io');
+      expect(result.nsIPs).toEqual(['5.6.7.8']);
+      expect(mockSetServers.mock.calls).toEqual([[['1.2.3.4']], [['5.6.7.8']]]);
+    });
+
+    it('stops on CNAME loops', async () => {
+      mockResolverResolveTxt.mockRejectedValue(new Error('ENODATA'));
+      mockResolverResolveCname.mockImplementation(async (name: string) =>
+        name === '_acme-challenge.example.com'
+          ? ['a.example.com']
+          : ['_acme-challenge.example.com'],
+      );
+
+      const result = await resolveAndValidateAcmeTxtAuthoritative('_acme-challenge.example.com');
+
+      expect(result.ok).toBe(false);
+      expect(result.reasons![0]).toContain('loops');
+    });
+
+    it('does not query CNAME when followCname is false', async () => {
+      mockResolverResolveTxt.mockRejectedValue(new Error('ENODATA'));
+
+      const result = await resolveAndValidateAcmeTxtAuthoritative(
+        '_acme-challenge.example.com',
+        undefined,
+        { followCname: false },
+      );
+
+      expect(result.ok).toBe(false);
+      expect(result.reasons![0]).toContain('Failed to resolve TXT');
+      expect(mockResolverResolveCname).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe('resolveAndValidateAcmeTxt', () => {
@@ -6,6 +6,8 @@ import {
   RateLimitedError,
   ServerMaintenanceError,
   UserActionRequiredError,
+  AutoRenewalCanceledError,
+  AutoRenewalExpiredError,
   AcmeError,
   ACME_ERROR,
 } from '../../src/index.js';
@@ -89,4 +91,13 @@ describe('createErrorFromProblem', () => {
     expect(err).toBeInstanceOf(UserActionRequiredError);
     expect(err.instance).toBe('https://example.com/tos');
   });
+
+  it('creates STAR auto-renewal errors', () => {
+    expect(
+      createErrorFromProblem({ type: ACME_ERROR.autoRenewalCanceled, detail: 'canceled' }),
+    ).toBeInstanceOf(AutoRenewalCanceledError);
+    expect(
+      createErrorFromProblem({ type: ACME_ERROR.autoRenewalExpired, detail: 'expired' }),
+    ).toBeInstanceOf(AutoRenewalExpiredError);
+  });
 });
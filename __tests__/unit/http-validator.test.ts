@@ -74,6 +74,16 @@ describe('validateHttp01Challenge', () => {
       expect.any(Object),
     );
   });
+
+  it('brackets public IPv6 addresses in the URL', async () => {
+    mockRequest.mockResolvedValue(mockResponse(200, 'auth'));
+    const result = await validateHttp01Challenge('2001:4860:4860::8888', 'my-token', 'auth');
+    expect(result.ok).toBe(true);
+    expect(mockRequest).toHaveBeenCalledWith(
+      'http://[2001:4860:4860::8888]/.well-known/acme-challenge/my-token',
+      expect.any(Object),
+    );
+  });
 });
 
 describe('validateHttp01ChallengeByUrl', () => {
@@ -0,0 +1,145 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { AcmeRequestSigner } from '../../src/lib/core/acme-request-signer.js';
+import type { AcmeOrderManager } from '../../src/lib/core/acme-order-manager.js';
+import type { AcmeOrder, AcmeAuthorization } from '../../src/lib/types/order.js';
+import type { ChallengePreparation } from '../../src/lib/core/acme-challenge-solver.js';
+import type { AcmeHttpValidationResult } from '../../src/lib/challenges/http-validator.js';
+
+// --- Mock the HTTP validator BEFORE importing the solver ---
+
+const mockValidate =
+  jest.fn<(url: string, expected?: string, opts?: object) => Promise<AcmeHttpValidationResult>>();
+
+jest.unstable_mockModule('../../src/lib/challenges/http-validator.js', () => ({
+  validateHttp01ChallengeByUrl: mockValidate,
+}));
+
+const { AcmeChallengeSolver } = await import('../../src/lib/core/acme-challenge-solver.js');
+const { ChallengeError } = await import('../../src/lib/errors/acme-operation-errors.js');
+
+const TOKEN = 'evaGxfADs6pSRb2LAv9IZf17Dt3juxGJ-PCt92wr-oA';
+const URL = `http://example.com/.well-known/acme-challenge/${TOKEN}`;
+const KEY_AUTH = 'token.thumbprint';
+
+const ORDER = {
+  status: 'pending',
+  identifiers: [{ type: 'dns', value: 'example.com' }],
+  authorizations: ['https://acme.test/authz/example.com'],
+  finalize: 'https://acme.test/finalize/1',
+} as AcmeOrder;
+
+const AUTHZ = {
+  identifier: { type: 'dns', value: 'example.com' },
+  status: 'pending',
+  challenges: [
+    { type: 'http-01', status: 'pending', url: 'https://acme.test/chall/1', token: TOKEN },
+  ],
+} as AcmeAuthorization;
+
+const MISMATCH: AcmeHttpValidationResult = {
+  ok: false,
+  statusCode: 404,
+  reasons: ['HTTP 404: Not Found'],
+};
+
+describe('HTTP-01 self-check', () => {
+  let signer: AcmeRequestSigner;
+  let solver: InstanceType<typeof AcmeChallengeSolver>;
+
+  beforeEach(() => {
+    mockValidate.mockReset();
+    signer = {
+      signedPost: jest.fn(async () => ({ statusCode: 200, headers: {}, body: {} })),
+      keyAuthorization: jest.fn(async () => KEY_AUTH),
+    } as unknown as AcmeRequestSigner;
+    const orders = {
+      waitOrder: jest.fn(async (order: AcmeOrder) => order),
+    } as unknown as AcmeOrderManager;
+    solver = new AcmeChallengeSolver(signer, orders);
+    solver.resolveAuthorization = async () => AUTHZ;
+  });
+
+  const noop = async (_preparation: ChallengePreparation): Promise<void> => {};
+
+  const solve = (selfCheck?: Parameters<typeof solver.solveHttp01>[1]['selfCheck']) =>
+    solver.solveHttp01(ORDER, {
+      setHttp: noop,
+      waitFor: noop,
+      ...(selfCheck !== undefined && { selfCheck }),
+    });
+
+  it('is off by default', async () => {
+    await solve();
+
+    expect(mockValidate).not.toHaveBeenCalled();
+    expect(signer.signedPost).toHaveBeenCalledWith('https://acme.test/chall/1', {});
+  });
+
+  it('retries until the key authorization is served, then accepts the challenge', async () => {
+    mockValidate
+      .mockResolvedValueOnce(MISMATCH)
+      .mockResolvedValueOnce(MISMATCH)
+      .mockResolvedValueOnce({ ok: true, statusCode: 200, content: KEY_AUTH });
+
+    await solve({ initialDelayMs: 1 });
+
+    expect(mockValidate).toHaveBeenCalledTimes(3);
+    expect(mockValidate).toHaveBeenCalledWith(URL, KEY_AUTH, { timeoutMs: 4000 });
+    expect(signer.signedPost).toHaveBeenCalledWith('https://acme.test/chall/1', {});
+  });
+
+  it('backs off exponentially between attempts', async () => {
+    mockValidate.mockResolvedValue(MISMATCH);
+    const delays: number[] = [];
+    const realSetTimeout = globalThis.setTimeout;
+    const spy = jest.spyOn(globalThis, 'setTimeout').mockImplementation(((
+      fn: () => void,
+      ms: number,
+    ) => {
+      delays.push(ms);
+      return realSetTimeout(fn, 0);
+    }) as typeof setTimeout);
+
+    try {
+      await expect(
+        solve({ attempts: 5, initialDelayMs: 100, maxDelayMs: 500 }),
+      ).rejects.toBeInstanceOf(ChallengeError);
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(delays).toEqual([100, 200, 400, 500]);
+  });
+
+  it('throws ChallengeError with the validator reasons without accepting the challenge', async () => {
+    mockValidate.mockResolvedValue(MISMATCH);
+
+    const error = await solve({ attempts: 2, initialDelayMs: 1 }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ChallengeError);
+    expect((error as Error).message).toBe(
+      'HTTP-01 self-check for example.com failed after 2 attempts: HTTP 404: Not Found',
+    );
+    expect((error as InstanceType<typeof ChallengeError>).context).toMatchObject({
+      url: URL,
+      reasons: ['HTTP 404: Not Found'],
+    });
+    expect(signer.signedPost).not.toHaveBeenCalled();
+  });
+
+  it('applies to http-01 handlers passed to solve()', async () => {
+    mockValidate.mockResolvedValue({ ok: true, statusCode: 200, content: KEY_AUTH });
+
+    await solver.solve(ORDER, {
+      handlers: {
+        'http-01': {
+          setChallenge: noop,
+          waitFor: noop,
+          selfCheck: true,
+        },
+      },
+    });
+
+    expect(mockValidate).toHaveBeenCalledTimes(1);
+  });
+});
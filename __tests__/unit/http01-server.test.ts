@@ -0,0 +1,108 @@
+import { describe, it, expect, jest, afterEach, beforeEach } from '@jest/globals';
+import { get } from 'http';
+
+// Mock undici (used by the waitFor self-check) before imports
+const mockRequest = jest.fn<any>();
+jest.unstable_mockModule('undici', () => ({ request: mockRequest }));
+
+const { createHttp01Server } = await import('../../src/lib/challenges/http01-server.js');
+const { ChallengeError } = await import('../../src/lib/errors/acme-operation-errors.js');
+type Http01Server = Awaited<ReturnType<typeof createHttp01Server>>;
+
+const TOKEN = 'evaGxfADs6pSRb2LAv9IZf17Dt3juxGJ-PCt92wr-oA';
+const KEY_AUTH = `${TOKEN}.thumbprint`;
+const TARGET = `http://example.com/.well-known/acme-challenge/${TOKEN}`;
+
+function fetchLocal(port: number, path: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    get({ host: '127.0.0.1', port, path }, (res) => {
+      let body = '';
+      res.on('data', (chunk) => (body += chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+    }).on('error', reject);
+  });
+}
+
+describe('createHttp01Server', () => {
+  let responder: Http01Server | undefined;
+
+  beforeEach(() => {
+    mockRequest.mockReset();
+  });
+
+  afterEach(async () => {
+    await responder?.close();
+    responder = undefined;
+  });
+
+  it('serves key authorizations set through setHttp', async () => {
+    responder = await createHttp01Server({ port: 0, host: '127.0.0.1' });
+    await responder.setHttp({ target: TARGET, value: KEY_AUTH, additional: { token: TOKEN } });
+
+    const res = await fetchLocal(responder.address.port, `/.well-known/acme-challenge/${TOKEN}`);
+    expect(res).toEqual({ status: 200, body: KEY_AUTH });
+  });
+
+  it('takes the token from the challenge URL when not provided', async () => {
+    responder = await createHttp01Server({ port: 0, host: '127.0.0.1' });
+    await responder.setHttp({ target: TARGET, value: KEY_AUTH });
+
+    const res = await fetchLocal(responder.address.port, `/.well-known/acme-challenge/${TOKEN}`);
+    expect(res.body).toBe(KEY_AUTH);
+  });
+
+  it('returns 404 for unknown tokens, other paths and removed tokens', async () => {
+    responder = await createHttp01Server({ port: 0, host: '127.0.0.1' });
+    const { port } = responder.address;
+    await responder.setHttp({ target: TARGET, value: KEY_AUTH });
+
+    expect((await fetchLocal(port, '/.well-known/acme-challenge/other')).status).toBe(404);
+    expect((await fetchLocal(port, '/')).status).toBe(404);
+
+    await responder.cleanup({ target: TARGET, value: KEY_AUTH });
+    expect((await fetchLocal(port, `/.well-known/acme-challenge/${TOKEN}`)).status).toBe(404);
+  });
+
+  it('waitFor resolves once the public URL serves the key authorization', async () => {
+    mockRequest
+      .mockResolvedValueOnce({ statusCode: 404, body: { text: async () => 'Not Found' } })
+      .mockResolvedValueOnce({ statusCode: 200, body: { text: async () => KEY_AUTH } });
+    responder = await createHttp01Server({
+      port: 0,
+      host: '127.0.0.1',
+      selfCheck: { attempts: 3, initialDelayMs: 1 },
+    });
+
+    await responder.waitFor({ target: TARGET, value: KEY_AUTH });
+
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+    expect(mockRequest.mock.calls[0][0]).toBe(TARGET);
+  });
+
+  it('waitFor throws ChallengeError with the validator reasons after the last attempt', async () => {
+    mockRequest.mockResolvedValue({ statusCode: 200, body: { text: async () => 'stale' } });
+    responder = await createHttp01Server({
+      port: 0,
+      host: '127.0.0.1',
+      selfCheck: { attempts: 2, initialDelayMs: 1 },
+    });
+
+    const error = await responder
+      .waitFor({ target: TARGET, value: KEY_AUTH })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ChallengeError);
+    expect((error as Error).message).toMatch(
+      /^HTTP-01 self-check for example\.com failed after 2 attempts: Content mismatch/,
+    );
+    expect((error as InstanceType<typeof ChallengeError>).context).toMatchObject({ url: TARGET });
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects when the port is already in use', async () => {
+    responder = await createHttp01Server({ port: 0, host: '127.0.0.1' });
+    await expect(
+      createHttp01Server({ port: responder.address.port, host: '127.0.0.1' }),
+    ).rejects.toThrow(/EADDRINUSE/);
+  });
+});
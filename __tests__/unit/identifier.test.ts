@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import * as x509 from '@peculiar/x509';
+import {
+  isIpAddress,
+  normalizeIpAddress,
+  toAcmeIdentifier,
+  toUrlHost,
+  ipToReverseDnsName,
+} from '../../src/lib/utils/identifier.js';
+import { createAcmeCsr } from '../../src/lib/crypto/csr.js';
+
+describe('identifier helpers', () => {
+  it('detects IPv4 and IPv6 literals', () => {
+    expect(isIpAddress('192.0.2.10')).toBe(true);
+    expect(isIpAddress('2001:db8::1')).toBe(true);
+    expect(isIpAddress('example.com')).toBe(false);
+    expect(isIpAddress('999.1.1.1')).toBe(false);
+  });
+
+  it('builds ip identifiers for IP literals and dns otherwise', () => {
+    expect(toAcmeIdentifier('example.com')).toEqual({ type: 'dns', value: 'example.com' });
+    expect(toAcmeIdentifier('192.0.2.10')).toEqual({ type: 'ip', value: '192.0.2.10' });
+    expect(toAcmeIdentifier('2001:DB8:0:0:0:0:0:1')).toEqual({ type: 'ip', value: '2001:db8::1' });
+  });
+
+  it('normalizes IPv6 to RFC 5952 form', () => {
+    expect(normalizeIpAddress('2001:0db8:0000:0000:0000:ff00:0042:8329')).toBe(
+      '2001:db8::ff00:42:8329',
+    );
+    expect(() => normalizeIpAddress('example.com')).toThrow('Not an IP address');
+  });
+
+  it('brackets IPv6 hosts for URLs', () => {
+    expect(toUrlHost('2001:db8::1')).toBe('[2001:db8::1]');
+    expect(toUrlHost('192.0.2.10')).toBe('192.0.2.10');
+    expect(toUrlHost('example.com')).toBe('example.com');
+  });
+
+  it('computes in-addr.arpa names for IPv4', () => {
+    expect(ipToReverseDnsName('192.0.2.10')).toBe('10.2.0.192.in-addr.arpa');
+  });
+
+  it('computes ip6.arpa names for IPv6', () => {
+    expect(ipToReverseDnsName('2001:db8::567:89ab')).toBe(
+      'b.a.9.8.7.6.5.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa',
+    );
+    expect(ipToReverseDnsName('::ffff:192.0.2.1')).toBe(
+      '1.0.2.0.0.0.0.c.f.f.f.f.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.ip6.arpa',
+    );
+  });
+
+  it('rejects non-IP input for reverse DNS', () => {
+    expect(() => ipToReverseDnsName('example.com')).toThrow('Not an IP address');
+  });
+});
+
+describe('createAcmeCsr with IP identifiers', () => {
+  const algo = { kind: 'ec', namedCurve: 'P-256', hash: 'SHA-256' } as const;
+
+  it('emits iPAddress SAN entries next to DNS names', async () => {
+    const { pem } = await createAcmeCsr(['example.com', '192.0.2.10', '2001:db8::1'], algo);
+    const csr = new x509.Pkcs10CertificateRequest(pem);
+    const san = csr.getExtension('2.5.29.17') as x509.SubjectAlternativeNameExtension | null;
+
+    expect(csr.subject).toBe('CN=example.com');
+    expect(san?.names.toJSON()).toEqual([
+      { type: 'dns', value: 'example.com' },
+      { type: 'ip', value: '192.0.2.10' },
+      { type: 'ip', value: '2001:db8::1' },
+    ]);
+  });
+
+  it('leaves the subject empty when only IP addresses are requested', async () => {
+    const { pem } = await createAcmeCsr(['192.0.2.10'], algo);
+    const csr = new x509.Pkcs10CertificateRequest(pem);
+    expect(csr.subject).toBe('');
+  });
+});
@@ -66,6 +66,15 @@ describe('ChallengeError', () => {
     const err = ChallengeError.invalidWithoutDetail('dns-01');
     expect(err.message).toContain('without error detail');
   });
+
+  it('selfCheckFailed()', () => {
+    const err = ChallengeError.selfCheckFailed('example.com', 'http://example.com/x', 3, []);
+    expect(err.message).toBe(
+      'HTTP-01 self-check for example.com failed after 3 attempts: no response',
+    );
+    expect(err.context?.challengeType).toBe('http-01');
+    expect(err.context?.attempts).toBe(3);
+  });
 });
 
 describe('OrderError', () => {
@@ -1,6 +1,10 @@
 import { describe, it, expect, jest } from '@jest/globals';
+import { webcrypto } from 'crypto';
+import * as x509 from '@peculiar/x509';
 import { AcmeOrderManager } from '../../src/lib/core/acme-order-manager.js';
 import type { AcmeOrder } from '../../src/lib/types/order.js';
+import { OrderError } from '../../src/lib/errors/acme-operation-errors.js';
+import { AutoRenewalCanceledError } from '../../src/lib/errors/acme-server-errors.js';
 
 function makeOrder(overrides: Partial<AcmeOrder> = {}): AcmeOrder {
   return {
@@ -13,6 +17,26 @@ function makeOrder(overrides: Partial<AcmeOrder> = {}): AcmeOrder {
   } as AcmeOrder;
 }
 
+async function makeChainPem(topIssuer: string): Promise<string> {
+  const alg = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+  const keys = (await webcrypto.subtle.generateKey(alg, true, [
+    'sign',
+    'verify',
+  ])) as webcrypto.CryptoKeyPair;
+  const make = (subject: string, issuer: string) =>
+    x509.X509CertificateGenerator.create({
+      serialNumber: '01',
+      subject,
+      issuer,
+      signingAlgorithm: alg,
+      publicKey: keys.publicKey,
+      signingKey: keys.privateKey,
+    });
+  const leaf = await make('CN=example.com', 'CN=R11');
+  const intermediate = await make('CN=R11', `CN=${topIssuer}`);
+  return `${leaf.toString('pem')}\n${intermediate.toString('pem')}\n`;
+}
+
 function makeMockSigner(responses: any[] = []) {
   let callIndex = 0;
   return {
@@ -57,6 +81,274 @@ describe('AcmeOrderManager', () => {
       });
     });
 
+    it('includes the ARI replaces field when provided', async () => {
+      const signer = makeMockSigner([
+        {
+          statusCode: 201,
+          headers: { location: 'https://acme.test/order/2' },
+          body: {
+            status: 'pending',
+            identifiers: [{ type: 'dns', value: 'example.com' }],
+            authorizations: [],
+            finalize: 'https://acme.test/order/2/finalize',
+            replaces: 'aki.serial',
+          },
+        },
+      ]);
+      const manager = new AcmeOrderManager(signer);
+      const order = await manager.createOrder(['example.com'], { replaces: 'aki.serial' });
+      expect(order.replaces).toBe('aki.serial');
+      expect(signer.signedPost).toHaveBeenCalledWith('https://acme.test/acme/new-order', {
+        identifiers: [{ type: 'dns', value: 'example.com' }],
+        replaces: 'aki.serial',
+      });
+    });
+
+    it('sends an advertised profile and exposes the echoed value', async () => {
+      const signer = makeMockSigner([
+        {
+          statusCode: 201,
+          headers: { location: 'https://acme.test/order/3' },
+          body: {
+            status: 'pending',
+            identifiers: [{ type: 'dns', value: 'example.com' }],
+            authorizations: [],
+            finalize: 'https://acme.test/order/3/finalize',
+            profile: 'shortlived',
+          },
+        },
+      ]);
+      signer.getDirectory.mockResolvedValueOnce({
+        newOrder: 'https://acme.test/acme/new-order',
+        meta: { profiles: { classic: 'Default', shortlived: '6-day certificates' } },
+      });
+      const manager = new AcmeOrderManager(signer);
+      const order = await manager.createOrder(['example.com'], { profile: 'shortlived' });
+      expect(order.profile).toBe('shortlived');
+      expect(signer.signedPost).toHaveBeenCalledWith('https://acme.test/acme/new-order', {
+        identifiers: [{ type: 'dns', value: 'example.com' }],
+        profile: 'shortlived',
+      });
+    });
+
+    it('rejects a profile the directory does not advertise', async () => {
+      const signer = makeMockSigner();
+      signer.getDirectory.mockResolvedValueOnce({
+        newOrder: 'https://acme.test/acme/new-order',
+        meta: { profiles: { classic: 'Default' } },
+      });
+      const manager = new AcmeOrderManager(signer);
+      await expect(manager.createOrder(['example.com'], { profile: 'tlsserver' })).rejects.toThrow(
+        OrderError,
+      );
+      expect(signer.signedPost).not.toHaveBeenCalled();
+    });
+
+    it('rejects any profile when the directory advertises none', async () => {
+      const signer = makeMockSigner();
+      const manager = new AcmeOrderManager(signer);
+      await expect(manager.createOrder(['example.com'], { profile: 'classic' })).rejects.toThrow(
+        'available: none',
+      );
+    });
+
+    it('sends ip identifiers for IPv4 and IPv6 literals', async () => {
+      const signer = makeMockSigner([
+        {
+          statusCode: 201,
+          headers: {},
+          body: { status: 'pending', identifiers: [], authorizations: [], finalize: '' },
+        },
+      ]);
+      const manager = new AcmeOrderManager(signer);
+      await manager.createOrder(['example.com', '192.0.2.10', '2001:DB8::1']);
+      expect(signer.signedPost).toHaveBeenCalledWith('https://acme.test/acme/new-order', {
+        identifiers: [
+          { type: 'dns', value: 'example.com' },
+          { type: 'ip', value: '192.0.2.10' },
+          { type: 'ip', value: '2001:db8::1' },
+        ],
+      });
+    });
+
+    describe('validity window', () => {
+      const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+      const pendingResponse = {
+        statusCode: 201,
+        headers: {},
+        body: {
+          status: 'pending',
+          identifiers: [],
+          authorizations: [],
+          finalize: '',
+          notBefore: '2030-01-01T00:00:00Z',
+          notAfter: '2030-01-02T00:00:00Z',
+        },
+      };
+
+      it('sends RFC 3339 strings unchanged and surfaces the echoed window', async () => {
+        const signer = makeMockSigner([pendingResponse]);
+        const manager = new AcmeOrderManager(signer);
+        const order = await manager.createOrder(['example.com'], {
+          notBefore: '2030-01-01T00:00:00Z',
+          notAfter: '2030-01-02T00:00:00+00:00',
+        });
+        expect(signer.signedPost).toHaveBeenCalledWith('https://acme.test/acme/new-order', {
+          identifiers: [{ type: 'dns', value: 'example.com' }],
+          notBefore: '2030-01-01T00:00:00Z',
+          notAfter: '2030-01-02T00:00:00+00:00',
+        });
+        expect(order.notBefore).toBe('2030-01-01T00:00:00Z');
+        expect(order.notAfter).toBe('2030-01-02T00:00:00Z');
+      });
+
+      it('serializes Date objects with toISOString', async () => {
+        const signer = makeMockSigner([pendingResponse]);
+        const manager = new AcmeOrderManager(signer);
+        const notAfter = inOneDay();
+        await manager.createOrder(['example.com'], { notAfter });
+        expect(signer.signedPost).toHaveBeenCalledWith('https://acme.test/acme/new-order', {
+          identifiers: [{ type: 'dns', value: 'example.com' }],
+          notAfter: notAfter.toISOString(),
+        });
+      });
+
+      it.each([
+        [{ notBefore: '2030-01-01' }, 'notBefore is not an RFC 3339 date-time'],
+        [{ notAfter: new Date('nope') }, 'notAfter is not an RFC 3339 date-time'],
+        [{ notAfter: '2001-01-01T00:00:00Z' }, 'notAfter must be in the future'],
+        [
+          { notBefore: '2030-01-02T00:00:00Z', notAfter: '2030-01-01T00:00:00Z' },
+          'notAfter must be later than notBefore',
+        ],
+      ])('rejects %j before contacting the server', async (options, message) => {
+        const signer = makeMockSigner();
+        const manager = new AcmeOrderManager(signer);
+        const err = await manager.createOrder(['example.com'], options).catch((e) => e);
+        expect(err).toBeInstanceOf(OrderError);
+        expect(err.message).toContain(message);
+        expect(signer.signedPost).not.toHaveBeenCalled();
+      });
+
+      it('maps a malformed rejection of the window to an OrderError', async () => {
+        const signer = makeMockSigner([
+          {
+            statusCode: 400,
+            headers: {},
+            body: {
+              type: 'urn:ietf:params:acme:error:malformed',
+              detail: 'NotBefore and NotAfter are not supported',
+            },
+          },
+        ]);
+        const manager = new AcmeOrderManager(signer);
+        const err = await manager
+          .createOrder(['example.com'], { notAfter: '2030-01-02T00:00:00Z' })
+          .catch((e) => e);
+        expect(err).toBeInstanceOf(OrderError);
+        expect(err.message).toBe(
+          'ACME server rejected the requested validity window: NotBefore and NotAfter are not supported',
+        );
+        expect(err.context).toMatchObject({ notAfter: '2030-01-02T00:00:00Z' });
+      });
+    });
+
+    describe('STAR auto-renewal', () => {
+      const starMeta = { 'min-lifetime': 86400, 'max-duration': 10 * 365 * 24 * 60 * 60 };
+      const starResponse = {
+        statusCode: 201,
+        headers: { location: 'https://acme.test/order/star' },
+        body: {
+          status: 'pending',
+          identifiers: [],
+          authorizations: [],
+          finalize: '',
+          'auto-renewal': { 'end-date': '2030-01-01T00:00:00Z', lifetime: 604800 },
+        },
+      };
+
+      function makeStarSigner(meta: Record<string, unknown> | undefined, responses: any[] = []) {
+        const signer = makeMockSigner(responses);
+        signer.getDirectory.mockResolvedValue({
+          newOrder: 'https://acme.test/acme/new-order',
+          ...(meta && { meta: { 'auto-renewal': meta } }),
+        });
+        return signer;
+      }
+
+      it('sends the auto-renewal block', async () => {
+        const signer = makeStarSigner(starMeta, [starResponse]);
+        const manager = new AcmeOrderManager(signer);
+        const endDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+        const order = await manager.createOrder(['example.com'], {
+          autoRenewal: { 'end-date': endDate, lifetime: 604800, 'lifetime-adjust': 3600 },
+        });
+        expect(signer.signedPost).toHaveBeenCalledWith('https://acme.test/acme/new-order', {
+          identifiers: [{ type: 'dns', value: 'example.com' }],
+          'auto-renewal': {
+            'end-date': endDate.toISOString(),
+            lifetime: 604800,
+            'lifetime-adjust': 3600,
+          },
+        });
+        expect(order['auto-renewal']).toEqual({
+          'end-date': '2030-01-01T00:00:00Z',
+          lifetime: 604800,
+        });
+      });
+
+      it('throws when the directory does not advertise auto-renewal', async () => {
+        const signer = makeStarSigner(undefined);
+        const manager = new AcmeOrderManager(signer);
+        await expect(
+          manager.createOrder(['example.com'], {
+            autoRenewal: { 'end-date': '2030-01-01T00:00:00Z', lifetime: 604800 },
+          }),
+        ).rejects.toThrow('does not advertise STAR auto-renewal support');
+        expect(signer.signedPost).not.toHaveBeenCalled();
+      });
+
+      it.each([
+        [{ 'end-date': '2030-01-01', lifetime: 604800 }, 'end-date is not an RFC 3339 date-time'],
+        [
+          { 'end-date': '2001-01-01T00:00:00Z', lifetime: 604800 },
+          'end-date must be in the future',
+        ],
+        [
+          { 'start-date': '2030-02-01T00:00:00Z', 'end-date': '2030-01-01T00:00:00Z', lifetime: 1 },
+          'end-date must be later than start-date',
+        ],
+        [{ 'end-date': '2030-01-01T00:00:00Z', lifetime: 0 }, 'lifetime must be a positive'],
+        [{ 'end-date': '2030-01-01T00:00:00Z', lifetime: 3600 }, 'below the server minimum'],
+        [
+          { 'end-date': '2099-01-01T00:00:00Z', lifetime: 604800 },
+          'exceeds the server maximum of 315360000s',
+        ],
+        [
+          { 'end-date': '2030-01-01T00:00:00Z', lifetime: 604800, 'allow-certificate-get': true },
+          'server does not allow certificate GET',
+        ],
+      ])('rejects %j before contacting the server', async (autoRenewal, message) => {
+        const signer = makeStarSigner(starMeta);
+        const manager = new AcmeOrderManager(signer);
+        const err = await manager.createOrder(['example.com'], { autoRenewal }).catch((e) => e);
+        expect(err).toBeInstanceOf(OrderError);
+        expect(err.message).toContain(message);
+        expect(signer.signedPost).not.toHaveBeenCalled();
+      });
+
+      it('rejects combining auto-renewal with a validity window', async () => {
+        const signer = makeStarSigner(starMeta);
+        const manager = new AcmeOrderManager(signer);
+        await expect(
+          manager.createOrder(['example.com'], {
+            notAfter: '2030-01-01T00:00:00Z',
+            autoRenewal: { 'end-date': '2030-01-01T00:00:00Z', lifetime: 604800 },
+          }),
+        ).rejects.toThrow('notBefore/notAfter cannot be combined with auto-renewal');
+      });
+    });
+
     it('throws on non-HTTPS Location header', async () => {
       const signer = makeMockSigner([
         {
@@ -170,6 +462,109 @@ describe('AcmeOrderManager', () => {
     });
   });
 
+  describe('waitOrder polling options', () => {
+    const fastPoll = { minIntervalMs: 1, maxIntervalMs: 20, maxWaitMs: 1_000 };
+
+    it('keeps the order URL on polled results', async () => {
+      const signer = makeMockSigner([
+        { statusCode: 200, headers: {}, body: { status: 'processing' } },
+        { statusCode: 200, headers: {}, body: { status: 'valid' } },
+      ]);
+      const manager = new AcmeOrderManager(signer);
+      const order = makeOrder({ status: 'processing', url: 'https://acme.test/order/1' });
+
+      const result = await manager.waitOrder(order, ['valid'], fastPoll);
+
+      expect(result.url).toBe('https://acme.test/order/1');
+      expect(signer.signedPost).toHaveBeenCalledTimes(2);
+      expect(signer.signedPost).toHaveBeenLastCalledWith('https://acme.test/order/1', null);
+    });
+
+    it('follows Retry-After clamped to the interval ceiling', async () => {
+      const signer = makeMockSigner([
+        { statusCode: 200, headers: { 'retry-after': '120' }, body: { status: 'processing' } },
+        { statusCode: 200, headers: {}, body: { status: 'valid' } },
+      ]);
+      const manager = new AcmeOrderManager(signer);
+      const order = makeOrder({ status: 'processing', url: 'https://acme.test/order/1' });
+
+      const started = Date.now();
+      await manager.waitOrder(order, ['valid'], fastPoll);
+      expect(Date.now() - started).toBeLessThan(1_000);
+    });
+
+    it('throws OrderError when the next poll would exceed maxWaitMs', async () => {
+      const signer = makeMockSigner([
+        { statusCode: 200, headers: { 'retry-after': '60' }, body: { status: 'processing' } },
+      ]);
+      const manager = new AcmeOrderManager(signer);
+      const order = makeOrder({ status: 'processing', url: 'https://acme.test/order/1' });
+
+      const err = await manager
+        .waitOrder(order, ['valid'], { minIntervalMs: 200, maxIntervalMs: 200, maxWaitMs: 300 })
+        .catch((e) => e);
+
+      expect(err).toBeInstanceOf(OrderError);
+      expect(err.context).toEqual({
+        targetStatuses: ['valid'],
+        currentStatus: 'processing',
+        attempts: 1,
+      });
+    });
+  });
+
+  describe('cancelAutoRenewal', () => {
+    it('posts status canceled to the order URL and exposes star-certificate', async () => {
+      const signer = makeMockSigner([
+        {
+          statusCode: 200,
+          headers: {},
+          body: {
+            status: 'canceled',
+            identifiers: [],
+            authorizations: [],
+            finalize: '',
+            'star-certificate': 'https://acme.test/cert/star',
+          },
+        },
+      ]);
+      const manager = new AcmeOrderManager(signer);
+      const order = makeOrder({ status: 'valid', url: 'https://acme.test/order/star' });
+      const canceled = await manager.cancelAutoRenewal(order);
+      expect(signer.signedPost).toHaveBeenCalledWith('https://acme.test/order/star', {
+        status: 'canceled',
+      });
+      expect(canceled.status).toBe('canceled');
+      expect(canceled.url).toBe('https://acme.test/order/star');
+      expect(canceled.starCertificate).toBe('https://acme.test/cert/star');
+    });
+
+    it('throws when the order has no URL', async () => {
+      const manager = new AcmeOrderManager(makeMockSigner());
+      await expect(manager.cancelAutoRenewal(makeOrder())).rejects.toThrow(
+        'Order does not have URL',
+      );
+    });
+
+    it('maps autoRenewalCanceled problems to typed errors', async () => {
+      const signer = makeMockSigner([
+        {
+          statusCode: 403,
+          headers: {},
+          body: {
+            type: 'urn:ietf:params:acme:error:autoRenewalCanceled',
+            detail: 'already canceled',
+            status: 403,
+          },
+        },
+      ]);
+      const manager = new AcmeOrderManager(signer);
+      await expect(
+        manager.cancelAutoRenewal(makeOrder({ url: 'https://acme.test/order/star' })),
+      ).rejects.toBeInstanceOf(AutoRenewalCanceledError);
+    });
+  });
+
   describe('downloadCertificate', () => {
     it('downloads certificate PEM', async () => {
       const certPem = '-----BEGIN CERTIFICATE-----\nMIIB...\n-----END CERTIFICATE-----';
@@ -199,5 +594,87 @@ describe('AcmeOrderManager', () => {
       const order = makeOrder({ status: 'valid', certificate: 'https://acme.test/cert/1' });
       await expect(manager.downloadCertificate(order)).rejects.toThrow();
     });
+
+    it('returns the alternate chain matching preferredChain', async () => {
+      const defaultChain = await makeChainPem('ISRG Root X1');
+      const crossSigned = await makeChainPem('DST Root CA X3');
+      const signer = makeMockSigner([
+        {
+          statusCode: 200,
+          headers: {
+            link: '<https://acme.test/directory>;rel="index", <https://acme.test/cert/1/1>;rel="alternate"',
+          },
+          body: defaultChain,
+        },
+        { statusCode: 200, headers: {}, body: crossSigned },
+      ]);
+      const manager = new AcmeOrderManager(signer);
+      const order = makeOrder({ status: 'valid', certificate: 'https://acme.test/cert/1' });
+
+      const cert = await manager.downloadCertificate(order, { preferredChain: 'DST Root CA X3' });
+
+      expect(cert).toBe(crossSigned);
+      expect(signer.signedPost).toHaveBeenLastCalledWith('https://acme.test/cert/1/1', null);
+    });
+
+    it('keeps the default chain when it already matches or nothing matches', async () => {
+      const defaultChain = await makeChainPem('ISRG Root X1');
+      const alternate = await makeChainPem('DST Root CA X3');
+      const signer = makeMockSigner([
+        {
+          statusCode: 200,
+          headers: { link: ['<https://acme.test/cert/1/1>; rel=alternate'] },
+          body: defaultChain,
+        },
+        {
+          statusCode: 200,
+          headers: { link: ['<https://acme.test/cert/1/1>; rel=alternate'] },
+          body: defaultChain,
+        },
+        { statusCode: 200, headers: {}, body: alternate },
+      ]);
+      const manager = new AcmeOrderManager(signer);
+      const order = makeOrder({ status: 'valid', certificate: 'https://acme.test/cert/1' });
+
+      expect(await manager.downloadCertificate(order, { preferredChain: 'ISRG Root X1' })).toBe(
+        defaultChain,
+      );
+      expect(signer.signedPost).toHaveBeenCalledTimes(1);
+
+      expect(await manager.downloadCertificate(order, { preferredChain: 'Unknown Root' })).toBe(
+        defaultChain,
+      );
+      expect(signer.signedPost).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('listAlternateChains', () => {
+    it('lists the default chain followed by each alternate', async () => {
+      const defaultChain = await makeChainPem('ISRG Root X1');
+      const alternate = await makeChainPem('DST Root CA X3');
+      const signer = makeMockSigner([
+        {
+          statusCode: 200,
+          headers: { link: '<https://acme.test/cert/1/1>;rel="alternate"' },
+          body: defaultChain,
+        },
+        { statusCode: 200, headers: {}, body: alternate },
+      ]);
+      const manager = new AcmeOrderManager(signer);
+      const order = makeOrder({ status: 'valid', certificate: 'https://acme.test/cert/1' });
+
+      const chains = await manager.listAlternateChains(order);
+
+      expect(chains).toEqual([
+        { url: 'https://acme.test/cert/1', certificate: defaultChain, topIssuer: 'ISRG Root X1' },
+        { url: 'https://acme.test/cert/1/1', certificate: alternate, topIssuer: 'DST Root CA X3' },
+      ]);
+    });
+
+    it('throws when no certificate URL', async () => {
+      const manager = new AcmeOrderManager(makeMockSigner());
+      const order = makeOrder({ status: 'valid', certificate: undefined as any });
+      await expect(manager.listAlternateChains(order)).rejects.toThrow('certificate');
+    });
   });
 });
@@ -1,6 +1,8 @@
 import { describe, it, expect } from '@jest/globals';
 import {
   calculateRetryDelay,
+  calculatePollDelay,
+  resolvePollOptions,
   isRetryableError,
   getRetryAfterMs,
   sleep,
@@ -142,6 +144,31 @@ describe('calculateRetryDelay', () => {
   });
 });
 
+describe('calculatePollDelay', () => {
+  const poll = resolvePollOptions({ minIntervalMs: 2_000, maxIntervalMs: 10_000 });
+
+  it('uses Retry-After when present', () => {
+    expect(calculatePollDelay(7_000, poll)).toBe(7_000);
+  });
+
+  it('falls back to the default interval without Retry-After', () => {
+    expect(calculatePollDelay(null, poll)).toBe(5_000);
+  });
+
+  it('clamps to the floor and ceiling', () => {
+    expect(calculatePollDelay(0, poll)).toBe(2_000);
+    expect(calculatePollDelay(3_600_000, poll)).toBe(10_000);
+  });
+
+  it('fills in defaults', () => {
+    expect(resolvePollOptions()).toEqual({
+      maxWaitMs: 300_000,
+      minIntervalMs: 1_000,
+      maxIntervalMs: 60_000,
+    });
+  });
+});
+
 describe('sleep', () => {
   it('resolves after delay', async () => {
     const start = Date.now();
@@ -0,0 +1,384 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { createSocket, type Socket } from 'dgram';
+import { createServer, type Server } from 'net';
+import { createHmac } from 'crypto';
+import type { AddressInfo } from 'net';
+import { createRfc2136Provider } from '../../src/lib/dns/rfc2136.js';
+import type { DnsResolver } from '../../src/lib/dns/resolver.js';
+import { createDns01Handler } from '../../src/lib/dns/provider.js';
+import { signTsigRequest, verifyTsigResponse } from '../../src/lib/dns/tsig.js';
+import {
+  DNS_CLASS,
+  DNS_RCODE,
+  DNS_TYPE,
+  decodeMessage,
+  decodeTxtData,
+  encodeMessage,
+  encodeName,
+  encodeRecord,
+  readName,
+} from '../../src/lib/dns/wire.js';
+
+const KEY = {
+  name: 'acme-key',
+  secret: Buffer.from('super-secret-tsig-key-material!!').toString('base64'),
+};
+const FQDN = '_acme-challenge.example.com';
+const VALUE = 'gfj9Xq-Xp2i3fkaV0Y-GSC8GFaBBa0ClRsKkHM0EKqE';
+
+interface ReceivedUpdate {
+  zone: string;
+  name: string;
+  class: number;
+  ttl: number;
+  txt: string[];
+  viaTcp: boolean;
+  tsigValid: boolean;
+}
+
+interface StubOptions {
+  rcode?: number;
+  truncateUdp?: boolean;
+  silent?: boolean;
+  corruptMac?: boolean;
+}
+
+/** TSIG variables as defined in RFC 8945 Section 4.3.3 (independent of the implementation) */
+function tsigVariables(msg: Buffer, rdataOffset: number): { variables: Buffer; mac: Buffer } {
+  const { name: algorithm, next } = readName(msg, rdataOffset);
+  const macSize = msg.readUInt16BE(next + 8);
+  const mac = msg.subarray(next + 10, next + 10 + macSize);
+  const after = next + 10 + macSize;
+  const classTtl = Buffer.alloc(6);
+  classTtl.writeUInt16BE(DNS_CLASS.ANY, 0);
+  const variables = Buffer.concat([
+    encodeName(KEY.name),
+    classTtl,
+    encodeName(algorithm),
+    msg.subarray(next, next + 8), // time signed + fudge
+    msg.subarray(after + 2, after + 6), // error + other len
+  ]);
+  return { variables, mac };
+}
+
+function hmac(...parts: Buffer[]): Buffer {
+  const h = createHmac('sha256', Buffer.from(KEY.secret, 'base64'));
+  parts.forEach((part) => h.update(part));
+  return h.digest();
+}
+
+/** Sign a response to a signed request with the request's TSIG time and fudge */
+function signResponse(body: Buffer, request: Buffer, corruptMac = false): Buffer {
+  const tsig = decodeMessage(request).additionals.at(-1)!;
+  const { variables, mac } = tsigVariables(request, tsig.dataOffset!);
+  const prefix = Buffer.alloc(2);
+  prefix.writeUInt16BE(mac.length, 0);
+  const responseMac = hmac(prefix, mac, body, variables);
+  if (corruptMac) responseMac[0] ^= 0xff;
+
+  const rdata = Buffer.from(tsig.data);
+  const { next } = readName(rdata, 0);
+  const signed = Buffer.concat([
+    body,
+    encodeRecord({
+      name: KEY.name,
+      type: DNS_TYPE.TSIG,
+      class: DNS_CLASS.ANY,
+      ttl: 0,
+      data: Buffer.concat([
+        rdata.subarray(0, next + 10),
+        responseMac,
+        rdata.subarray(next + 10 + mac.length),
+      ]),
+    }),
+  ]);
+  signed.writeUInt16BE(1, 10);
+  return signed;
+}
+
+class StubDnsServer {
+  readonly updates: ReceivedUpdate[] = [];
+  private udp!: Socket;
+  private tcp!: Server;
+  port = 0;
+
+  constructor(private readonly opts: StubOptions = {}) {}
+
+  async start(): Promise<void> {
+    this.udp = createSocket('udp4');
+    this.udp.on('message', (msg, rinfo) => {
+      if (this.opts.silent) return;
+      const response = this.handle(msg, false);
+      this.udp.send(response, rinfo.port, rinfo.address);
+    });
+    await new Promise<void>((resolve) => this.udp.bind(0, '127.0.0.1', resolve));
+    this.port = (this.udp.address() as AddressInfo).port;
+
+    this.tcp = createServer((socket) => {
+      let buf = Buffer.alloc(0);
+      socket.on('data', (chunk) => {
+        buf = Buffer.concat([buf, chunk]);
+        if (buf.length >= 2 && buf.length >= buf.readUInt16BE(0) + 2) {
+          const response = this.handle(buf.subarray(2, buf.readUInt16BE(0) + 2), true);
+          const framed = Buffer.alloc(2);
+          framed.writeUInt16BE(response.length, 0);
+          socket.end(Buffer.concat([framed, response]));
+        }
+      });
+    });
+    await new Promise<void>((resolve) => this.tcp.listen(this.port, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    this.udp.close();
+    await new Promise<void>((resolve) => this.tcp.close(() => resolve()));
+  }
+
+  private handle(msg: Buffer, viaTcp: boolean): Buffer {
+    const request = decodeMessage(msg);
+    const tsig = request.additionals.at(-1)!;
+    const { variables, mac } = tsigVariables(msg, tsig.dataOffset!);
+    const unsigned = Buffer.from(msg.subarray(0, tsig.offset));
+    unsigned.writeUInt16BE(request.additionals.length - 1, 10);
+    const update = request.authorities[0]!;
+
+    if (!viaTcp && this.opts.truncateUdp) {
+      return encodeMessage({
+        id: request.id,
+        flags: 0xa800 | 0x0200,
+        questions: request.questions,
+        answers: [],
+        authorities: [],
+        additionals: [],
+      });
+    }
+
+    this.updates.push({
+      zone: request.questions[0]!.name,
+      name: update.name,
+      class: update.class,
+      ttl: update.ttl,
+      txt: decodeTxtData(update.data),
+      viaTcp,
+      tsigValid: hmac(unsigned, variables).equals(mac),
+    });
+
+    const body = encodeMessage({
+      id: request.id,
+      flags: 0xa800 | (this.opts.rcode ?? DNS_RCODE.NOERROR),
+      questions: request.questions,
+      answers: [],
+      authorities: [],
+      additionals: [],
+    });
+
+    return signResponse(body, msg, this.opts.corruptMac);
+  }
+}
+
+describe('createRfc2136Provider', () => {
+  let stub: StubDnsServer | undefined;
+
+  async function startStub(opts: StubOptions = {}): Promise<StubDnsServer> {
+    stub = new StubDnsServer(opts);
+    await stub.start();
+    return stub;
+  }
+
+  afterEach(async () => {
+    await stub?.stop();
+    stub = undefined;
+  });
+
+  it('adds a TXT record with a TSIG-signed UPDATE', async () => {
+    const server = await startStub();
+    const provider = createRfc2136Provider({
+      server: '127.0.0.1',
+      port: server.port,
+      zone: 'example.com.',
+      tsig: KEY,
+      ttl: 120,
+    });
+
+    await provider.createTxt(FQDN, VALUE);
+
+    expect(server.updates).toEqual([
+      {
+        zone: 'example.com',
+        name: FQDN,
+        class: DNS_CLASS.IN,
+        ttl: 120,
+        txt: [VALUE],
+        viaTcp: false,
+        tsigValid: true,
+      },
+    ]);
+    await expect(provider.zoneFor(FQDN)).resolves.toBe('example.com');
+  });
+
+  it('finds the zone through the resolver option when no zone is set', async () => {
+    const fail = (name: string): Promise<never> =>
+      Promise.reject(Object.assign(new Error(`ENODATA ${name}`), { code: 'ENODATA' }));
+    const resolver: DnsResolver = {
+      resolveNs: async (name) => (name === 'internal.test' ? ['ns1.internal.test'] : fail(name)),
+      resolveTxt: fail,
+      resolve4: fail,
+      resolve6: fail,
+      resolveCname: fail,
+      resolveCaa: fail,
+    };
+    const provider = createRfc2136Provider({ server: '127.0.0.1', resolver });
+
+    await expect(provider.zoneFor('_acme-challenge.www.internal.test')).resolves.toBe(
+      'internal.test',
+    );
+  });
+
+  it('removes exactly the given TXT value (class NONE, TTL 0)', async () => {
+    const server = await startStub();
+    const provider = createRfc2136Provider({
+      server: '127.0.0.1',
+      port: server.port,
+      zone: 'example.com',
+      tsig: KEY,
+    });
+
+    await provider.removeTxt(FQDN, VALUE);
+
+    expect(server.updates[0]).toMatchObject({ class: DNS_CLASS.NONE, ttl: 0, txt: [VALUE] });
+  });
+
+  it('retries over TCP when the UDP response is truncated', async () => {
+    const server = await startStub({ truncateUdp: true });
+    const provider = createRfc2136Provider({
+      server: '127.0.0.1',
+      port: server.port,
+      zone: 'example.com',
+      tsig: KEY,
+    });
+
+    await provider.createTxt(FQDN, VALUE);
+
+    expect(server.updates).toHaveLength(1);
+    expect(server.updates[0]).toMatchObject({ viaTcp: true, tsigValid: true });
+  });
+
+  it('uses TCP only when configured', async () => {
+    const server = await startStub();
+    const provider = createRfc2136Provider({
+      server: '127.0.0.1',
+      port: server.port,
+      zone: 'example.com',
+      tsig: KEY,
+      transport: 'tcp',
+    });
+
+    await provider.createTxt(FQDN, VALUE);
+
+    expect(server.updates[0]).toMatchObject({ viaTcp: true });
+  });
+
+  it('reports the response code of a rejected update', async () => {
+    const server = await startStub({ rcode: DNS_RCODE.REFUSED });
+    const provider = createRfc2136Provider({
+      server: '127.0.0.1',
+      port: server.port,
+      zone: 'example.com',
+      tsig: KEY,
+    });
+
+    await expect(provider.createTxt(FQDN, VALUE)).rejects.toThrow(
+      `DNS UPDATE to add TXT ${FQDN} in zone example.com failed: REFUSED`,
+    );
+  });
+
+  it('rejects responses whose TSIG MAC does not verify', async () => {
+    const server = await startStub({ corruptMac: true });
+    const provider = createRfc2136Provider({
+      server: '127.0.0.1',
+      port: server.port,
+      zone: 'example.com',
+      tsig: KEY,
+    });
+
+    await expect(provider.createTxt(FQDN, VALUE)).rejects.toThrow('BADSIG');
+  });
+
+  it('times out when the server does not answer', async () => {
+    const server = await startStub({ silent: true });
+    const provider = createRfc2136Provider({
+      server: '127.0.0.1',
+      port: server.port,
+      zone: 'example.com',
+      tsig: KEY,
+      timeoutMs: 50,
+    });
+
+    await expect(provider.createTxt(FQDN, VALUE)).rejects.toThrow('timed out');
+  });
+});
+
+describe('TSIG', () => {
+  const signedAt = 1_700_000_000_000;
+
+  function exchange(): { response: Buffer; mac: Buffer } {
+    const request = encodeMessage({
+      id: 7,
+      flags: 0x2800,
+      questions: [{ name: 'example.com', type: DNS_TYPE.SOA, class: DNS_CLASS.IN }],
+      answers: [],
+      authorities: [],
+      additionals: [],
+    });
+    const signed = signTsigRequest(request, KEY, signedAt);
+    const body = encodeMessage({ ...decodeMessage(request), flags: 0xa800 });
+    return { response: signResponse(body, signed.message), mac: signed.mac };
+  }
+
+  it('accepts a response signed over the request MAC', () => {
+    const { response, mac } = exchange();
+    expect(() => verifyTsigResponse(response, KEY, mac, signedAt)).not.toThrow();
+  });
+
+  it('rejects responses outside the fudge window', () => {
+    const { response, mac } = exchange();
+    expect(() => verifyTsigResponse(response, KEY, mac, signedAt + 301_000)).toThrow('BADTIME');
+  });
+
+  it('rejects unsigned responses', () => {
+    const { response, mac } = exchange();
+    const unsigned = decodeMessage(response);
+    expect(() =>
+      verifyTsigResponse(encodeMessage({ ...unsigned, additionals: [] }), KEY, mac, signedAt),
+    ).toThrow('not TSIG-signed');
+  });
+});
+
+describe('createDns01Handler', () => {
+  it('maps challenge callbacks to the provider', async () => {
+    const provider = {
+      zoneFor: jest.fn(async (_fqdn: string) => 'example.com'),
+      createTxt: jest.fn(async (_fqdn: string, _value: string) => {}),
+      removeTxt: jest.fn(async (_fqdn: string, _value: string) => {}),
+    };
+    const waitFor = jest.fn(async (_prep: unknown) => {});
+    const handler = createDns01Handler(provider, { waitFor });
+    const prep = { target: FQDN, value: VALUE };
+
+    await handler.setDns(prep);
+    await handler.setChallenge(prep);
+    await handler.waitFor(prep);
+    await handler.removeDns(prep);
+    await handler.cleanup(prep);
+
+    expect(provider.createTxt.mock.calls).toEqual([
+      [FQDN, VALUE],
+      [FQDN, VALUE],
+    ]);
+    expect(provider.removeTxt.mock.calls).toEqual([
+      [FQDN, VALUE],
+      [FQDN, VALUE],
+    ]);
+    expect(waitFor).toHaveBeenCalledWith(prep);
+  });
+});
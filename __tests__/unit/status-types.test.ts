@@ -37,7 +37,12 @@ describe('isValidOrderStatusTransition', () => {
     expect(isValidOrderStatusTransition(ORDER_STATUS.PROCESSING, ORDER_STATUS.INVALID)).toBe(true);
   });
 
-  it('rejects transitions from terminal state valid', () => {
+  it('allows valid -> canceled for STAR orders', () => {
+    expect(isValidOrderStatusTransition(ORDER_STATUS.VALID, ORDER_STATUS.CANCELED)).toBe(true);
+    expect(isValidOrderStatusTransition(ORDER_STATUS.CANCELED, ORDER_STATUS.VALID)).toBe(false);
+  });
+
+  it('rejects other transitions from valid', () => {
     expect(isValidOrderStatusTransition(ORDER_STATUS.VALID, ORDER_STATUS.PENDING)).toBe(false);
     expect(isValidOrderStatusTransition(ORDER_STATUS.VALID, ORDER_STATUS.READY)).toBe(false);
     expect(isValidOrderStatusTransition(ORDER_STATUS.VALID, ORDER_STATUS.PROCESSING)).toBe(false);
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  symlinkSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createWebrootProvider } from '../../src/lib/challenges/webroot.js';
+
+const TOKEN = 'evaGxfADs6pSRb2LAv9IZf17Dt3juxGJ-PCt92wr-oA';
+const KEY_AUTH = `${TOKEN}.thumbprint`;
+
+function prep(host: string, token = TOKEN) {
+  return {
+    target: `http://${host}/.well-known/acme-challenge/${token}`,
+    value: KEY_AUTH,
+    additional: { token },
+  };
+}
+
+describe('createWebrootProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'acme-webroot-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the key authorization below the webroot with mode 0644', async () => {
+    const provider = createWebrootProvider({ webroot: join(dir, 'www') });
+    await provider.setHttp(prep('example.com'));
+
+    const file = join(dir, 'www', '.well-known', 'acme-challenge', TOKEN);
+    expect(provider.pathFor(prep('example.com'))).toBe(file);
+    expect(readFileSync(file, 'utf-8')).toBe(KEY_AUTH);
+    expect(statSync(file).mode & 0o777).toBe(0o644);
+  });
+
+  it('removes the file on cleanup and tolerates a missing file', async () => {
+    const provider = createWebrootProvider({ webroot: dir });
+    await provider.setHttp(prep('example.com'));
+    await provider.cleanup(prep('example.com'));
+
+    expect(existsSync(provider.pathFor(prep('example.com')))).toBe(false);
+    await expect(provider.cleanup(prep('example.com'))).resolves.toBeUndefined();
+  });
+
+  it('selects per-identifier webroots, falling back to the default', async () => {
+    const provider = createWebrootProvider({
+      webroot: join(dir, 'default'),
+      webroots: { 'API.example.com': join(dir, 'api'), '2001:db8::1': join(dir, 'v6') },
+    });
+
+    expect(provider.pathFor(prep('api.example.com'))).toContain(join(dir, 'api'));
+    expect(provider.pathFor(prep('[2001:db8::1]'))).toContain(join(dir, 'v6'));
+    expect(provider.pathFor(prep('www.example.com'))).toContain(join(dir, 'default'));
+  });
+
+  it('throws when no webroot matches', async () => {
+    const provider = createWebrootProvider({ webroots: { 'a.example.com': dir } });
+    await expect(provider.setHttp(prep('b.example.com'))).rejects.toThrow(
+      'No webroot configured for b.example.com',
+    );
+  });
+
+  it('rejects tokens that could traverse out of the challenge directory', async () => {
+    const provider = createWebrootProvider({ webroot: dir });
+    await expect(provider.setHttp(prep('example.com', '../../etc/passwd'))).rejects.toThrow(
+      'Invalid HTTP-01 token',
+    );
+  });
+
+  it('refuses a .well-known symlink that points outside the webroot', async () => {
+    const outside = join(dir, 'outside');
+    const root = join(dir, 'www');
+    mkdirSync(outside);
+    mkdirSync(root);
+    symlinkSync(outside, join(root, '.well-known'));
+
+    const provider = createWebrootProvider({ webroot: root });
+    await expect(provider.setHttp(prep('example.com'))).rejects.toThrow(
+      'resolves outside the webroot',
+    );
+    expect(existsSync(join(outside, 'acme-challenge', TOKEN))).toBe(false);
+  });
+
+  it('refuses a symlink at the token path instead of writing through it', async () => {
+    const outside = join(dir, 'outside.txt');
+    const root = join(dir, 'www');
+    writeFileSync(outside, 'original');
+    mkdirSync(join(root, '.well-known', 'acme-challenge'), { recursive: true });
+    symlinkSync(outside, join(root, '.well-known', 'acme-challenge', TOKEN));
+
+    const provider = createWebrootProvider({ webroot: root, fileMode: 0o600 });
+    await expect(provider.setHttp(prep('example.com'))).rejects.toThrow('is a symlink');
+    expect(readFileSync(outside, 'utf8')).toBe('original');
+    expect(statSync(outside).mode & 0o777).not.toBe(0o600);
+  });
+
+  it('replaces an existing challenge file', async () => {
+    const root = join(dir, 'www');
+    const provider = createWebrootProvider({ webroot: root });
+    await provider.setHttp({ ...prep('example.com'), value: 'stale' });
+
+    await provider.setHttp(prep('example.com'));
+
+    expect(readFileSync(provider.pathFor(prep('example.com')), 'utf8')).toBe(KEY_AUTH);
+  });
+});
@@ -33,6 +33,8 @@ function handleOrderStatus(status: AcmeOrderStatus): string {
       return 'Order is valid, certificate available';
     case ORDER_STATUS.INVALID:
       return 'Order failed';
+    case ORDER_STATUS.CANCELED:
+      return 'STAR auto-renewal canceled';
     default: {
       // TypeScript ensures exhaustive checking
       const exhaustiveCheck: never = status;
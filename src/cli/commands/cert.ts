@@ -5,16 +5,25 @@ import { dirname, join, resolve } from 'path';
 import {
   AcmeClient,
   AcmeAccount,
+  AccountDoesNotExistError,
   createAcmeCsr,
+  createDnsPropagationWaiter,
+  createHttp01Server,
+  createWebrootProvider,
   generateKeyPair,
-  resolveAndValidateAcmeTxtAuthoritative,
+  isIpAddress,
   type AcmeCertificateAlgorithm,
+  type AcmeDnsPerServerResult,
+  type CaaCheckResult,
   type AccountKeys,
   type AcmeOrder,
+  type WebrootProvider,
+  type WebrootProviderOptions,
 } from '../../index.js';
 import { createSpinner, heading, kv, symbols, render } from '../logger.js';
 import { parseAlgorithm, selectAdvancedOptions } from '../utils/algorithms.js';
 import { resolveDirectoryUrl } from '../utils/directories.js';
+import { loadAccountKey } from '../utils/account-key.js';
 
 /** Flags and options accepted by the certificate issuance command. */
 export interface CertCommandOptions {
@@ -30,7 +39,35 @@ export interface CertCommandOptions {
   certAlgo?: string;
   eabKid?: string;
   eabHmacKey?: string;
+  profile?: string;
   force?: boolean;
+  standalone?: boolean;
+  httpPort?: string;
+  /** `<path>` (default webroot) or `<domain>=<path>`, repeatable */
+  webroot?: string[];
+  /** Run the CAA pre-flight check before ordering (default: true) */
+  caaCheck?: boolean;
+}
+
+/**
+ * Parse repeated --webroot values into provider options.
+ * `example.com=/srv/www` maps one identifier; a bare path is the default webroot.
+ */
+export function parseWebrootOptions(values: string[]): WebrootProviderOptions {
+  const options: WebrootProviderOptions = {};
+  const webroots: Record<string, string> = {};
+  for (const value of values) {
+    const match = /^([^=/\\]+)=(.+)$/.exec(value);
+    if (match) {
+      webroots[(match[1] as string).toLowerCase()] = match[2] as string;
+    } else if (options.webroot) {
+      throw new Error(`Only one default --webroot allowed (got ${options.webroot} and ${value})`);
+    } else {
+      options.webroot = value;
+    }
+  }
+  if (Object.keys(webroots).length > 0) options.webroots = webroots;
+  return options;
 }
 
 /** Execute full certificate issuance flow for a single domain. */
@@ -38,7 +75,15 @@ export async function handleCertCommand(options: CertCommandOptions) {
   const domain = options.domain || (await input({ message: 'Domain name for certificate:' }));
   const email = options.email || (await input({ message: 'Contact email for ACME account:' }));
 
-  let challengeType = options.challenge;
+  if (options.standalone && options.webroot?.length) {
+    throw new Error('--standalone and --webroot cannot be combined');
+  }
+  const webroot = options.webroot?.length
+    ? createWebrootProvider(parseWebrootOptions(options.webroot))
+    : undefined;
+
+  // --standalone and --webroot answer http-01 themselves, so they override the challenge type
+  let challengeType = options.standalone || webroot ? 'http-01' : options.challenge;
   if (!challengeType) {
     challengeType = await select({
       message: 'Select challenge type:',
@@ -49,6 +94,11 @@ export async function handleCertCommand(options: CertCommandOptions) {
     });
   }
 
+  // RFC 8738: IP identifiers cannot be validated over DNS
+  if (isIpAddress(domain) && challengeType === 'dns-01') {
+    throw new Error(`dns-01 cannot validate IP address "${domain}"; use --challenge http-01`);
+  }
+
   // Algorithms
   let accountAlgo: AcmeCertificateAlgorithm,
     certAlgo: AcmeCertificateAlgorithm,
@@ -73,7 +123,14 @@ export async function handleCertCommand(options: CertCommandOptions) {
   heading('Configuration');
   kv('Domain', domain);
   kv('Email', email);
-  kv('Challenge', challengeType);
+  kv(
+    'Challenge',
+    options.standalone
+      ? `${challengeType} (standalone)`
+      : webroot
+        ? `${challengeType} (webroot)`
+        : challengeType,
+  );
   if (separateAlgos) {
     kv(
       'Account Algo',
@@ -100,26 +157,12 @@ export async function handleCertCommand(options: CertCommandOptions) {
   const client = new AcmeClient(directoryUrl, { nonce: { maxPool: 64 } });
   let accountKeys: AccountKeys;
   let kid: string | undefined;
+  let loadedExistingKey = false;
 
   if (existsSync(accountKeyPath)) {
     console.log(symbols.info + ' Using existing account key');
-    const accountData = JSON.parse(readFileSync(accountKeyPath, 'utf-8'));
-    const privateKey = await crypto.subtle.importKey(
-      'jwk',
-      accountData.privateKey,
-      { name: 'ECDSA', namedCurve: 'P-256' },
-      true,
-      ['sign'],
-    );
-    const publicKey = await crypto.subtle.importKey(
-      'jwk',
-      accountData.publicKey,
-      { name: 'ECDSA', namedCurve: 'P-256' },
-      true,
-      ['verify'],
-    );
-    accountKeys = { privateKey, publicKey };
-    kid = accountData.kid;
+    ({ keys: accountKeys, kid } = await loadAccountKey(accountKeyPath));
+    loadedExistingKey = true;
   } else {
     console.log(symbols.info + ' Creating new ACME account...');
     const keyPair = await generateKeyPair(accountAlgo);
@@ -150,6 +193,16 @@ export async function handleCertCommand(options: CertCommandOptions) {
   if (options.eabKid && options.eabHmacKey) {
     console.log(symbols.info + ' Using External Account Binding');
   }
+  // Recover the kid of an existing key (e.g. after a crash before it was saved)
+  if (!kid && loadedExistingKey) {
+    try {
+      kid = await acct.lookup();
+      console.log(symbols.success + ' Existing account found for key');
+    } catch (e) {
+      if (!(e instanceof AccountDoesNotExistError)) throw e;
+      console.log(symbols.info + ' No account exists for this key yet');
+    }
+  }
   // Register account if needed
   if (!kid) {
     const registered = await acct.register({
@@ -162,11 +215,17 @@ export async function handleCertCommand(options: CertCommandOptions) {
     console.log(symbols.success + ' Account ready');
   }
 
+  if (options.caaCheck !== false) {
+    await runCaaCheck(acct, domain, challengeType as string);
+  }
+
   const spinOrder = createSpinner().start('Creating certificate order...');
-  const order = await acct.createOrder([domain]);
-  spinOrder.succeed('Order created');
+  const order = await acct.createOrder([domain], {
+    ...(options.profile && { profile: options.profile }),
+  });
+  spinOrder.succeed(order.profile ? `Order created (profile: ${order.profile})` : 'Order created');
 
-  const ready = await solveChallenge(acct, order, challengeType as string);
+  const ready = await solveChallenge(acct, order, challengeType as string, options, webroot);
 
   const spinCsr = createSpinner().start('Generating CSR');
   const { derBase64Url, keys: csrKeys } = await createAcmeCsr([domain], certAlgo);
@@ -219,14 +278,47 @@ export async function handleCertCommand(options: CertCommandOptions) {
   kv('Private Key', keyPath);
 }
 
+/**
+ * CAA pre-flight check: fail before ordering when CAA records forbid this CA,
+ * account or challenge type. Lookup failures only warn, since the CA decides.
+ */
+async function runCaaCheck(
+  acct: AcmeAccount,
+  domain: string,
+  challengeType: string,
+): Promise<void> {
+  const spin = createSpinner().start('Checking CAA records');
+  let result: CaaCheckResult;
+  try {
+    result = await acct.checkCaa(domain, { challengeType });
+  } catch (e) {
+    spin.warn('CAA check skipped: ' + (e instanceof Error ? e.message : String(e)));
+    return;
+  }
+  if (result.allowed) {
+    spin.succeed(
+      result.relevantName ? `CAA at ${result.relevantName} permits issuance` : 'No CAA records',
+    );
+    return;
+  }
+  spin.fail(`CAA records at ${result.relevantName} forbid issuance`);
+  result.reasons.forEach((r) => render.warn(r));
+  throw new Error(`CAA records forbid issuance for ${domain} (use --no-caa-check to skip)`);
+}
+
 /** Select appropriate challenge solver function. */
 async function solveChallenge(
   acct: AcmeAccount,
   order: AcmeOrder,
   challengeType: string,
+  options: CertCommandOptions,
+  webroot?: WebrootProvider,
 ): Promise<AcmeOrder> {
   if (challengeType === 'dns-01') return solveDns01(acct, order);
-  if (challengeType === 'http-01') return solveHttp01(acct, order);
+  if (challengeType === 'http-01' && options.standalone) {
+    return solveHttp01Standalone(acct, order, parseHttpPort(options.httpPort ?? '80'));
+  }
+  if (challengeType === 'http-01') return solveHttp01(acct, order, webroot);
   throw new Error(`Unsupported challenge type: ${challengeType}`);
 }
 
@@ -241,37 +333,26 @@ async function solveDns01(acct: AcmeAccount, order: AcmeOrder): Promise<AcmeOrde
           heading('DNS TXT Record');
           kv('Name', prep.target);
           kv('Value (expected)', prep.value);
-          const maxAttempts = 24;
-          const delayMs = 5_000;
-          const started = Date.now();
-          let ok = false;
           let firstMetaPrinted = false;
-          let lastValues: string[] = [];
-          let lastReasons: string[] | undefined;
-
-          for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-            const attemptLabel = `Attempt ${attempt}/${maxAttempts}`;
-            const elapsed = ((Date.now() - started) / 1000).toFixed(1);
-            spin.start(`Verifying DNS (${attemptLabel}, ${elapsed}s elapsed)`);
-            try {
-              const result = await resolveAndValidateAcmeTxtAuthoritative(prep.target, prep.value);
-              lastValues = result.allValues;
-              lastReasons = result.reasons;
+          let last: AcmeDnsPerServerResult | undefined;
+
+          spin.start('Verifying DNS');
+          const waitForPropagation = createDnsPropagationWaiter({
+            timeoutMs: 120_000,
+            intervalMs: 5_000,
+            onProgress: ({ attempt, elapsedMs, satisfied, required, done, result }) => {
+              last = result;
+              const elapsed = (elapsedMs / 1000).toFixed(1);
               // Print zone / NS info once (even if failing)
               if (!firstMetaPrinted) {
                 heading('Authoritative DNS');
+                if (result.cnameChain?.length) kv('CNAME', result.cnameChain.join(' -> '));
                 if (result.zone) kv('Zone', result.zone);
                 if (result.nsHosts?.length) kv('NS Hosts', result.nsHosts.join(', '));
                 if (result.nsIPs?.length) kv('NS IPs', result.nsIPs.join(', '));
                 firstMetaPrinted = true;
               }
-              if (result.ok) {
-                const totalElapsed = ((Date.now() - started) / 1000).toFixed(1);
-                spin.succeed(`DNS record verified in ${totalElapsed}s`);
-                ok = true;
-                settled = true;
-                break;
-              }
+              if (done) return;
 
               // Not yet OK — show reasons (if any) succinctly
               if (result.reasons?.length) {
@@ -284,21 +365,24 @@ async function solveDns01(acct: AcmeAccount, order: AcmeOrder): Promise<AcmeOrde
               } else {
                 render.dim('TXT not propagated yet');
               }
-            } catch (e) {
-              render.error('Lookup error: ' + (e instanceof Error ? e.message : String(e)));
-            }
-
-            if (attempt < maxAttempts) {
-              await new Promise((res) => setTimeout(res, delayMs));
-            }
-          }
+              spin.start(
+                `Verifying DNS (attempt ${attempt}, ${satisfied}/${required} name servers, ${elapsed}s elapsed)`,
+              );
+            },
+          });
 
-          if (!ok) {
+          const started = Date.now();
+          try {
+            await waitForPropagation(prep);
+          } catch (error) {
             spin.fail('DNS verification failed');
             settled = true;
-            // Provide diagnostics: elapsed time, last observed TXT values, reasons
+            // Provide diagnostics: waiter error, elapsed time, last observed TXT values, reasons
             const elapsedTotal = ((Date.now() - started) / 1000).toFixed(1);
+            const lastValues = last?.allValues ?? [];
+            const lastReasons = last?.reasons;
             heading('Diagnostics');
+            kv('Error', (error as Error).message);
             kv('Elapsed', `${elapsedTotal}s`);
             if (lastValues.length) {
               kv('Observed TXT count', String(lastValues.length));
@@ -317,8 +401,12 @@ async function solveDns01(acct: AcmeAccount, order: AcmeOrder): Promise<AcmeOrde
                 render.dim(`(+) ${lastReasons.length - 10} more reasons suppressed`);
               }
             }
-            throw new Error('DNS record not verified');
+            throw new Error('DNS record not verified', { cause: error });
           }
+
+          const totalElapsed = ((Date.now() - started) / 1000).toFixed(1);
+          spin.succeed(`DNS record verified in ${totalElapsed}s`);
+          settled = true;
         },
         setDns: async (prep) => {
           heading('Add DNS TXT Record');
@@ -349,6 +437,9 @@ async function solveDns01(acct: AcmeAccount, order: AcmeOrder): Promise<AcmeOrde
             throw new Error('Cancelled by user');
           }
         },
+        removeDns: async (prep) => {
+          render.dim(`TXT record ${prep.target} is no longer needed and can be removed`);
+        },
       });
     } catch (e) {
       if (!settled) spin.fail('DNS-01 challenge failed');
@@ -362,11 +453,70 @@ async function solveDns01(acct: AcmeAccount, order: AcmeOrder): Promise<AcmeOrde
   return ready;
 }
 
-/** Manual HTTP-01 challenge solving with repeated HTTP validation attempts. */
-async function solveHttp01(acct: AcmeAccount, order: AcmeOrder): Promise<AcmeOrder> {
+/** Parse and range-check the --http-port value. */
+function parseHttpPort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid --http-port: ${value}`);
+  }
+  return port;
+}
+
+/** HTTP-01 challenge solving with the built-in responder (no web server needed). */
+async function solveHttp01Standalone(
+  acct: AcmeAccount,
+  order: AcmeOrder,
+  port: number,
+): Promise<AcmeOrder> {
+  const spin = createSpinner().start(`Starting HTTP-01 responder on port ${port}`);
+  const server = await createHttp01Server({ port }).catch((e: NodeJS.ErrnoException) => {
+    spin.fail(`Could not listen on port ${port}`);
+    if (e.code === 'EACCES') {
+      render.warn('Binding to ports below 1024 usually requires root privileges');
+    }
+    throw e;
+  });
+
+  try {
+    const ready = await acct.solveHttp01(order, {
+      setHttp: async (prep) => {
+        await server.setHttp(prep);
+        spin.start(`Serving challenge for ${prep.target}`);
+      },
+      waitFor: async (prep) => {
+        spin.start(`Self-checking ${prep.target}`);
+        await server.waitFor(prep);
+        spin.start('Waiting for CA validation');
+      },
+      removeHttp: server.cleanup,
+    });
+    spin.succeed('HTTP-01 challenge solved');
+    return ready;
+  } catch (e) {
+    spin.fail('HTTP-01 challenge failed');
+    throw e;
+  } finally {
+    await server.close();
+  }
+}
+
+/**
+ * HTTP-01 challenge solving with repeated HTTP validation attempts. Files are
+ * written to the webroot when given, otherwise the user deploys them manually.
+ */
+async function solveHttp01(
+  acct: AcmeAccount,
+  order: AcmeOrder,
+  webroot?: WebrootProvider,
+): Promise<AcmeOrder> {
   const spin = createSpinner().start('Solving HTTP-01 challenge');
   const ready = await acct.solveHttp01(order, {
     setHttp: async (prep) => {
+      if (webroot) {
+        await webroot.setHttp(prep);
+        console.log(`\nWrote challenge file ${webroot.pathFor(prep)}`);
+        return;
+      }
       console.log('\nHTTP Challenge:');
       console.log(`  URL: ${prep.target}`);
       console.log(`  Content: ${prep.value}`);
@@ -401,6 +551,13 @@ async function solveHttp01(acct: AcmeAccount, order: AcmeOrder): Promise<AcmeOrd
         throw new Error('HTTP challenge not verified');
       }
     },
+    removeHttp: async (prep) => {
+      if (webroot) {
+        await webroot.cleanup(prep);
+        return;
+      }
+      console.log(`Challenge file for ${prep.target} is no longer needed and can be removed`);
+    },
   });
   return ready;
 }
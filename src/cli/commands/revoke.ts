@@ -0,0 +1,86 @@
+import { existsSync, readFileSync } from 'fs';
+import {
+  AcmeClient,
+  AcmeAccount,
+  REVOCATION_REASON,
+  revokeCertificateWithKey,
+} from '../../index.js';
+import { createSpinner, heading, kv } from '../logger.js';
+import { resolveDirectoryUrl } from '../utils/directories.js';
+import { loadAccountKey } from '../utils/account-key.js';
+
+/** Flags and options accepted by the revoke command. */
+export interface RevokeCommandOptions {
+  cert?: string;
+  key?: string;
+  accountKey?: string;
+  reason?: string;
+  staging?: boolean;
+  production?: boolean;
+  directory?: string;
+}
+
+/**
+ * Parse a revocation reason given as RFC 5280 code (`1`) or name (`key-compromise`).
+ */
+export function parseRevocationReason(value: string): number {
+  if (/^\d+$/.test(value)) {
+    const code = Number(value);
+    if (!(Object.values(REVOCATION_REASON) as number[]).includes(code)) {
+      throw new Error(`Unsupported revocation reason code: ${value}`);
+    }
+    return code;
+  }
+  const name = value.trim().toUpperCase().replace(/-/g, '_') as keyof typeof REVOCATION_REASON;
+  if (!(name in REVOCATION_REASON)) {
+    const names = Object.keys(REVOCATION_REASON)
+      .map((k) => k.toLowerCase().replace(/_/g, '-'))
+      .join(', ');
+    throw new Error(`Unknown revocation reason "${value}". Use one of: ${names}`);
+  }
+  return REVOCATION_REASON[name];
+}
+
+function readRequiredFile(path: string, label: string): string {
+  if (!existsSync(path)) throw new Error(`${label} not found: ${path}`);
+  return readFileSync(path, 'utf-8');
+}
+
+/**
+ * Revoke a certificate, signing either with the certificate's own key (`--key`)
+ * or with the issuing account key (`--account-key`).
+ */
+export async function handleRevokeCommand(options: RevokeCommandOptions) {
+  if (!options.cert) throw new Error('Certificate path is required (--cert <path>)');
+  if (!options.key && !options.accountKey) {
+    throw new Error('Provide the certificate key (--key) or the account key (--account-key)');
+  }
+
+  const certificatePem = readRequiredFile(options.cert, 'Certificate');
+  const reason = options.reason !== undefined ? parseRevocationReason(options.reason) : undefined;
+  const directoryUrl = await resolveDirectoryUrl(options);
+
+  heading('Revocation');
+  kv('Certificate', options.cert);
+  kv('Signed with', options.key ? `certificate key (${options.key})` : `account key`);
+  if (reason !== undefined) kv('Reason', String(reason));
+  kv('Directory', directoryUrl);
+
+  const client = new AcmeClient(directoryUrl);
+  const spin = createSpinner().start('Revoking certificate...');
+  try {
+    if (options.key) {
+      const keyPem = readRequiredFile(options.key, 'Certificate key');
+      await revokeCertificateWithKey(client, certificatePem, keyPem, reason);
+    } else {
+      const { keys, kid } = await loadAccountKey(options.accountKey as string);
+      const acct = new AcmeAccount(client, keys, { ...(kid && { kid }) });
+      if (!kid) await acct.lookup();
+      await acct.revokeCertificate(certificatePem, reason);
+    }
+  } catch (e) {
+    spin.fail('Revocation failed');
+    throw e;
+  }
+  spin.succeed('Certificate revoked');
+}
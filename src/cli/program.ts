@@ -6,6 +6,7 @@ import { handleError } from './utils/errors.js';
 import { handleCertCommand } from './commands/cert.js';
 import { handleCreateAccountKey } from './commands/create-account-key.js';
 import { handleInteractiveMode } from './commands/interactive.js';
+import { handleRevokeCommand } from './commands/revoke.js';
 
 /** Build a Commander program instance for the acme-love CLI. */
 export function createCli(): Command {
@@ -48,6 +49,16 @@ export function createCli(): Command {
     .option('--cert-algo <algo>', 'Certificate key algorithm', 'ec-p256')
     .option('--eab-kid <kid>', 'External Account Binding key identifier')
     .option('--eab-hmac-key <key>', 'External Account Binding HMAC key (base64url)')
+    .option('--profile <name>', 'Certificate profile advertised by the CA (e.g. shortlived)')
+    .option('--standalone', 'Answer http-01 with a built-in HTTP server (implies http-01)')
+    .option('--http-port <port>', 'Port for the --standalone HTTP server', '80')
+    .option(
+      '--webroot <path>',
+      'Write http-01 files below a web root; repeat as <domain>=<path> per domain (implies http-01)',
+      (value: string, previous: string[]) => [...previous, value],
+      [] as string[],
+    )
+    .option('--no-caa-check', 'Skip the CAA pre-flight check before ordering')
     .action(async (opts) => {
       try {
         await handleCertCommand({
@@ -64,6 +75,11 @@ export function createCli(): Command {
           certAlgo: opts.certAlgo,
           eabKid: opts.eabKid,
           eabHmacKey: opts.eabHmacKey,
+          profile: opts.profile,
+          standalone: opts.standalone,
+          httpPort: opts.httpPort,
+          webroot: opts.webroot,
+          caaCheck: opts.caaCheck,
         });
       } catch (e) {
         handleError(e);
@@ -85,6 +101,33 @@ export function createCli(): Command {
       }
     });
 
+  program
+    .command('revoke')
+    .description('Revoke a certificate with its own key or the issuing account key')
+    .option('--cert <path>', 'Path to the certificate (PEM)')
+    .option('--key <path>', 'Path to the certificate private key (PEM)')
+    .option('--account-key <path>', 'Path to the issuing account key')
+    .option('--reason <reason>', 'RFC 5280 reason code or name (e.g. key-compromise)')
+    .option('--staging', "Use Let's Encrypt staging environment")
+    .option('--production', "Use Let's Encrypt production environment")
+    .option('--directory <url>', 'Custom ACME directory URL')
+    .action(async (opts) => {
+      try {
+        await handleRevokeCommand({
+          cert: opts.cert,
+          key: opts.key,
+          accountKey: opts.accountKey,
+          reason: opts.reason,
+          staging: opts.staging,
+          production: opts.production,
+          directory: opts.directory,
+        });
+      } catch (e) {
+        handleError(e);
+        exitOnError();
+      }
+    });
+
   program
     .command('interactive')
     .alias('i')
@@ -0,0 +1,29 @@
+import { existsSync, readFileSync } from 'fs';
+import type { AccountKeys } from '../../index.js';
+
+/** Account key file contents as read back from disk. */
+export interface LoadedAccountKey {
+  keys: AccountKeys;
+  /** Account URL, once the key has been registered */
+  kid?: string;
+}
+
+/**
+ * Import an account key file written by create-account-key or cert.
+ * Supports RSA and ECDSA (P-256, P-384, P-521) JWK key pairs.
+ */
+export async function loadAccountKey(path: string): Promise<LoadedAccountKey> {
+  if (!existsSync(path)) throw new Error(`Account key not found: ${path}`);
+  const accountData = JSON.parse(readFileSync(path, 'utf-8'));
+  const params =
+    accountData.privateKey.kty === 'RSA'
+      ? { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+      : { name: 'ECDSA', namedCurve: accountData.privateKey.crv ?? 'P-256' };
+  const privateKey = await crypto.subtle.importKey('jwk', accountData.privateKey, params, true, [
+    'sign',
+  ]);
+  const publicKey = await crypto.subtle.importKey('jwk', accountData.publicKey, params, true, [
+    'verify',
+  ]);
+  return { keys: { privateKey, publicKey }, ...(accountData.kid && { kid: accountData.kid }) };
+}
@@ -0,0 +1,132 @@
+/**
+ * RFC 8555 DNS-01 Propagation Waiter
+ *
+ * Polls every authoritative name server until the challenge TXT record is
+ * served, so the CA is only asked to validate once the record is visible.
+ * Features:
+ * - Individual queries per authoritative IP (no pooled resolver)
+ * - All-servers or quorum success criteria
+ * - CNAME delegation support
+ * - Progress callback with zone / name server details per attempt
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8555#section-8.4
+ */
+
+import { resolveAcmeTxtPerNameserver, type AcmeDnsPerServerResult } from './dns-txt-validator.js';
+import type { DnsResolver } from '../dns/resolver.js';
+
+/**
+ * Options for the DNS propagation waiter
+ */
+export interface DnsPropagationWaiterOptions {
+  /** Give up after this many milliseconds (default: 120000) */
+  timeoutMs?: number;
+  /** Delay between checks in milliseconds (default: 5000) */
+  intervalMs?: number;
+  /** Require every authoritative server to serve the value (default: true) */
+  requireAllNameservers?: boolean;
+  /** Servers required when not all are (default: a majority) */
+  quorum?: number;
+  /** Per-query timeout in milliseconds (default: 4000) */
+  queryTimeoutMs?: number;
+  /** Follow `_acme-challenge` CNAME delegation (default: true) */
+  followCname?: boolean;
+  /** Resolver for zone and name server discovery (default: system resolver) */
+  resolver?: DnsResolver;
+  /** Called after every check */
+  onProgress?: (progress: DnsPropagationProgress) => void;
+}
+
+/**
+ * State reported after each check
+ */
+export interface DnsPropagationProgress {
+  /** 1-based check number */
+  attempt: number;
+  /** Time since the first check started */
+  elapsedMs: number;
+  /** Servers serving the expected value */
+  satisfied: number;
+  /** Servers needed for success */
+  required: number;
+  /** Whether the record is considered propagated */
+  done: boolean;
+  /** Full per-server result of this check */
+  result: AcmeDnsPerServerResult;
+}
+
+/**
+ * Challenge data accepted by the waiter (compatible with ChallengePreparation)
+ */
+export interface DnsPropagationPreparation {
+  /** Record name, e.g. `_acme-challenge.example.com` */
+  target: string;
+  /** Expected TXT value */
+  value: string;
+}
+
+/**
+ * Create a `waitFor` callback that polls authoritative name servers
+ *
+ * The returned function resolves once enough servers serve the expected value
+ * and throws with the last reasons when the timeout is reached.
+ *
+ * @example
+ * ```typescript
+ * await account.solveDns01(order, {
+ *   setDns: async (prep) => dnsApi.addTxt(prep.target, prep.value),
+ *   waitFor: createDnsPropagationWaiter({
+ *     timeoutMs: 300_000,
+ *     onProgress: (p) => console.log(`${p.satisfied}/${p.required} name servers ready`),
+ *   }),
+ * });
+ * ```
+ */
+export function createDnsPropagationWaiter(
+  opts: DnsPropagationWaiterOptions = {},
+): (preparation: DnsPropagationPreparation) => Promise<void> {
+  const {
+    timeoutMs = 120_000,
+    intervalMs = 5_000,
+    requireAllNameservers = true,
+    queryTimeoutMs = 4000,
+    followCname = true,
+  } = opts;
+
+  const requiredFor = (total: number): number => {
+    if (requireAllNameservers) return total;
+    return Math.min(total, Math.max(1, opts.quorum ?? Math.floor(total / 2) + 1));
+  };
+
+  return async (preparation) => {
+    const started = Date.now();
+    let last: AcmeDnsPerServerResult | undefined;
+    let satisfied = 0;
+    let required = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      last = await resolveAcmeTxtPerNameserver(preparation.target, preparation.value, {
+        followCname,
+        timeoutMs: queryTimeoutMs,
+        ...(opts.resolver && { resolver: opts.resolver }),
+      });
+      satisfied = last.servers.filter((server) => server.ok).length;
+      required = requiredFor(last.servers.length);
+      const done = last.servers.length > 0 && satisfied >= required;
+
+      const elapsedMs = Date.now() - started;
+      opts.onProgress?.({ attempt, elapsedMs, satisfied, required, done, result: last });
+      if (done) return;
+
+      const remaining = timeoutMs - elapsedMs;
+      if (remaining <= 0) break;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(intervalMs, remaining)));
+    }
+
+    const reasons = last.reasons?.length ? last.reasons.join('; ') : 'no answer';
+    throw new Error(
+      `TXT record ${preparation.target} not propagated after ${Math.round(timeoutMs / 1000)}s ` +
+        `(${satisfied}/${required} name servers): ${reasons}`,
+    );
+  };
+}
@@ -10,7 +10,7 @@
  * - Comprehensive error reporting
  */
 
-import { resolveTxt, resolveNs, resolve4, resolve6, Resolver } from 'dns/promises';
+import { createPinnedResolver, systemResolver, type DnsResolver } from '../dns/resolver.js';
 
 /**
  * Result of DNS-01 challenge validation
@@ -30,6 +30,8 @@ export interface AcmeDnsValidationResult {
   nsHosts?: string[];
   /** Resolved nameserver IP addresses */
   nsIPs?: string[];
+  /** CNAME targets followed from the queried name, in order */
+  cnameChain?: string[];
 }
 
 /**
@@ -111,14 +113,17 @@ export function validateAcmeTxtSet(
 }
 
 /** Return the zone name that actually has NS records (walk labels to the right) */
-export async function findZoneWithNs(fqdn: string): Promise<string | null> {
+export async function findZoneWithNs(
+  fqdn: string,
+  resolver: DnsResolver = systemResolver,
+): Promise<string | null> {
   // Ensure no trailing dot normalization issues
   const name = fqdn.replace(/\.$/, '');
   const parts = name.split('.');
   for (let i = 0; i < parts.length; i++) {
     const candidate = parts.slice(i).join('.');
     try {
-      const ns = await resolveNs(candidate);
+      const ns = await resolver.resolveNs(candidate);
       if (ns && ns.length > 0) return candidate;
     } catch {
       // keep walking up
@@ -128,12 +133,15 @@ export async function findZoneWithNs(fqdn: string): Promise<string | null> {
 }
 
 /** Resolve NS hostnames to a list of unique IPs (A and AAAA) */
-export async function resolveNsToIPs(nsHosts: string[]): Promise<string[]> {
+export async function resolveNsToIPs(
+  nsHosts: string[],
+  resolver: DnsResolver = systemResolver,
+): Promise<string[]> {
   const ips = new Set<string>();
   await Promise.all(
     nsHosts.map(async (ns) => {
       try {
-        const [v4, v6] = await Promise.allSettled([resolve4(ns), resolve6(ns)]);
+        const [v4, v6] = await Promise.allSettled([resolver.resolve4(ns), resolver.resolve6(ns)]);
         if (v4.status === 'fulfilled') v4.value.forEach((ip) => ips.add(ip));
         if (v6.status === 'fulfilled') v6.value.forEach((ip) => ips.add(ip));
       } catch {
@@ -147,142 +155,306 @@ export async function resolveNsToIPs(nsHosts: string[]): Promise<string[]> {
 export interface AuthoritativeOptions {
   followCname?: boolean; // follow CNAME chain for _acme-challenge (one hop is typical)
   timeoutMs?: number; // per DNS query timeout
+  resolver?: DnsResolver; // zone and name server discovery (default: system resolver)
 }
 
-/** Resolve TXT via a specific Resolver bound to given name servers (IPs) */
-async function resolveTxtWithResolver(resolver: Resolver, name: string): Promise<string[][]> {
-  return resolver.resolveTxt(name);
+/** Resolver for queries sent straight to the given name servers */
+function pinnedTo(resolver: DnsResolver, servers: string[]): DnsResolver {
+  return resolver.forServers?.(servers) ?? createPinnedResolver({ servers });
 }
 
-/** Try following one CNAME hop using the same resolver */
-async function maybeFollowCname(
-  resolver: Resolver,
-  name: string,
-  enabled: boolean | undefined,
-): Promise<string[][]> {
-  if (!enabled) {
-    return resolveTxtWithResolver(resolver, name);
-  }
-  try {
-    // Node's dns/promises doesn't expose CNAME + target in one call,
-    // so we attempt TXT first; if ENODATA or NXDOMAIN, try CNAME via system resolver,
-    // then re-query TXT at the target using the authoritative resolver.
-    const txt = await resolveTxtWithResolver(resolver, name);
-    if (txt.length > 0) return txt;
-  } catch {
-    // continue to try CNAME
-  }
+/** Upper bound on CNAME hops, guards against loops and absurd chains */
+const MAX_CNAME_HOPS = 8;
 
-  // Fallback: check CNAME via system resolver (acceptable for target discovery)
-  // CNAME fallback currently omitted.
-  // If we got here, just try TXT once more (will throw on failure)
-  return resolveTxtWithResolver(resolver, name);
+/** Reject a DNS query that does not settle within timeoutMs */
+function withTimeout<T>(p: Promise<T>, timeoutMs: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const t = setTimeout(
+      () => reject(new Error(`DNS query timeout after ${timeoutMs} ms`)),
+      timeoutMs,
+    );
+    p.then(
+      (v) => {
+        clearTimeout(t);
+        resolve(v);
+      },
+      (e) => {
+        clearTimeout(t);
+        reject(e);
+      },
+    );
+  });
 }
 
-/**
- * Resolves and validates _acme-challenge.<domain> at authoritative name servers.
- * @param domain example.org (without _acme-challenge.)
- * @param expected optional — exact expected TXT value (43 characters base64url)
- * @param opts authoritative resolver options
- */
-export async function resolveAndValidateAcmeTxtAuthoritative(
-  domain: string,
-  expected?: string,
-  opts: AuthoritativeOptions = {},
-): Promise<AcmeDnsValidationResult> {
-  const name = domain.replace(/\.$/, '');
-  const zone = (await findZoneWithNs(name)) || (await findZoneWithNs(domain));
+type AuthoritativeServers =
+  | { ok: true; zone: string; nsHosts: string[]; nsIPs: string[]; resolver: DnsResolver }
+  | { ok: false; result: AcmeDnsValidationResult };
+
+/** Find the zone of a name and a resolver pinned to its authoritative IPs */
+async function locateAuthoritative(
+  name: string,
+  lookup: DnsResolver,
+): Promise<AuthoritativeServers> {
+  const zone = await findZoneWithNs(name, lookup);
 
   if (!zone) {
     return {
       ok: false,
-      allValues: [],
-      reasons: [`Failed to find zone with NS for ${name}`],
-      zone: null,
-      nsHosts: [],
-      nsIPs: [],
+      result: {
+        ok: false,
+        allValues: [],
+        reasons: [`Failed to find zone with NS for ${name}`],
+        zone: null,
+        nsHosts: [],
+        nsIPs: [],
+      },
     };
   }
 
   let nsHosts: string[] = [];
   try {
-    nsHosts = await resolveNs(zone);
+    nsHosts = await lookup.resolveNs(zone);
   } catch (e) {
     return {
       ok: false,
-      allValues: [],
-      reasons: [`Failed to resolve NS for ${zone}: ${String(e)}`],
-      zone,
-      nsHosts: [],
-      nsIPs: [],
+      result: {
+        ok: false,
+        allValues: [],
+        reasons: [`Failed to resolve NS for ${zone}: ${String(e)}`],
+        zone,
+        nsHosts: [],
+        nsIPs: [],
+      },
     };
   }
 
-  const nsIPs = await resolveNsToIPs(nsHosts);
+  const nsIPs = await resolveNsToIPs(nsHosts, lookup);
   if (nsIPs.length === 0) {
     return {
       ok: false,
-      allValues: [],
-      reasons: [`No IPs for NS of ${zone} (hosts: ${nsHosts.join(', ')})`],
-      zone,
-      nsHosts,
-      nsIPs: [],
+      result: {
+        ok: false,
+        allValues: [],
+        reasons: [`No IPs for NS of ${zone} (hosts: ${nsHosts.join(', ')})`],
+        zone,
+        nsHosts,
+        nsIPs: [],
+      },
     };
   }
 
-  // Create a dedicated resolver pinned to authoritative IPs
-  const resolver = new Resolver();
-  resolver.setServers(nsIPs);
-
-  // Optional per-query timeout
-  const runWithTimeout = <T>(p: Promise<T>): Promise<T> => {
-    const { timeoutMs = 4000 } = opts;
-    return new Promise<T>((resolve, reject) => {
-      const t = setTimeout(
-        () => reject(new Error(`DNS query timeout after ${timeoutMs} ms`)),
-        timeoutMs,
-      );
-      p.then(
-        (v) => {
-          clearTimeout(t);
-          resolve(v);
-        },
-        (e) => {
-          clearTimeout(t);
-          reject(e);
-        },
-      );
-    });
-  };
-
-  let records: string[][] = [];
+  // Query the authoritative IPs directly, bypassing recursive resolvers
+  return { ok: true, zone, nsHosts, nsIPs, resolver: pinnedTo(lookup, nsIPs) };
+}
+
+/** CNAME target of a name at its authoritative servers, if it is an alias */
+async function resolveCnameTarget(
+  resolver: DnsResolver,
+  name: string,
+  timeoutMs: number,
+): Promise<string | undefined> {
   try {
-    records = await runWithTimeout(maybeFollowCname(resolver, name, opts.followCname ?? true));
+    const [target] = await withTimeout(resolver.resolveCname(name), timeoutMs);
+    return target?.replace(/\.$/, '').toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves and validates a DNS-01 TXT record at authoritative name servers.
+ *
+ * When the name is a CNAME (e.g. `_acme-challenge` delegated to acme-dns), the
+ * chain is followed and each target is queried at its own zone's name servers.
+ * The returned zone and name servers are those of the final target.
+ *
+ * @param domain record name, e.g. _acme-challenge.example.org
+ * @param expected optional — exact expected TXT value (43 characters base64url)
+ * @param opts authoritative resolver options
+ */
+export async function resolveAndValidateAcmeTxtAuthoritative(
+  domain: string,
+  expected?: string,
+  opts: AuthoritativeOptions = {},
+): Promise<AcmeDnsValidationResult> {
+  const { followCname = true, timeoutMs = 4000, resolver: lookup = systemResolver } = opts;
+  const cnameChain: string[] = [];
+  let name = domain.replace(/\.$/, '');
+
+  for (;;) {
+    const servers = await locateAuthoritative(name, lookup);
+    if (!servers.ok) {
+      return { ...servers.result, ...(cnameChain.length > 0 && { cnameChain }) };
+    }
+    const { zone, nsHosts, nsIPs, resolver } = servers;
+    const context = { zone, nsHosts, nsIPs, ...(cnameChain.length > 0 && { cnameChain }) };
+
+    let records: string[][] = [];
+    let txtError: unknown;
+    try {
+      records = await withTimeout(resolver.resolveTxt(name), timeoutMs);
+    } catch (e) {
+      txtError = e;
+    }
+    if (records.length > 0) {
+      return { ...validateAcmeTxtSet(records, expected), ...context };
+    }
+
+    // An alias has no TXT of its own; the data lives at the target's zone
+    const target = followCname ? await resolveCnameTarget(resolver, name, timeoutMs) : undefined;
+    if (!target) {
+      return {
+        ok: false,
+        allValues: [],
+        reasons: [
+          `Failed to resolve TXT at authoritative servers for ${name}: ${String(txtError ?? 'no TXT records')}`,
+        ],
+        ...context,
+      };
+    }
+    if (target === name || cnameChain.includes(target) || cnameChain.length >= MAX_CNAME_HOPS) {
+      return {
+        ok: false,
+        allValues: [],
+        reasons: [`CNAME chain for ${domain} loops or exceeds ${MAX_CNAME_HOPS} hops`],
+        ...context,
+      };
+    }
+    cnameChain.push(target);
+    name = target;
+  }
+}
+
+/**
+ * TXT lookup result from a single authoritative name server
+ */
+export interface AcmeDnsServerResult {
+  /** Name server IP address */
+  server: string;
+  /** Whether this server serves the expected value */
+  ok: boolean;
+  /** Matched challenge value */
+  matched?: string;
+  /** Normalized TXT values returned by this server */
+  values: string[];
+  /** Failure reasons for this server */
+  reasons?: string[];
+}
+
+/**
+ * Result of checking every authoritative name server individually
+ */
+export interface AcmeDnsPerServerResult extends AcmeDnsValidationResult {
+  /** One entry per authoritative IP, in nsIPs order */
+  servers: AcmeDnsServerResult[];
+}
+
+/** Query one name server for TXT records and validate them */
+async function checkServer(
+  server: string,
+  name: string,
+  expected: string | undefined,
+  timeoutMs: number,
+  lookup: DnsResolver,
+): Promise<AcmeDnsServerResult> {
+  const resolver = pinnedTo(lookup, [server]);
+  try {
+    const records = await withTimeout(resolver.resolveTxt(name), timeoutMs);
+    const result = validateAcmeTxtSet(records, expected);
+    return result.ok
+      ? {
+          server,
+          ok: true,
+          values: result.allValues,
+          ...(result.matched && { matched: result.matched }),
+        }
+      : { server, ok: false, values: result.allValues, reasons: result.reasons ?? [] };
   } catch (e) {
+    return { server, ok: false, values: [], reasons: [String(e)] };
+  }
+}
+
+/**
+ * Query each authoritative name server of a DNS-01 record individually.
+ *
+ * Unlike resolveAndValidateAcmeTxtAuthoritative, which asks one pooled resolver,
+ * this shows which servers have not picked up the record yet. `ok` is true only
+ * when every server serves the expected value. CNAME chains are followed the same way.
+ *
+ * @param domain record name, e.g. _acme-challenge.example.org
+ * @param expected optional — exact expected TXT value (43 characters base64url)
+ * @param opts authoritative resolver options
+ */
+export async function resolveAcmeTxtPerNameserver(
+  domain: string,
+  expected?: string,
+  opts: AuthoritativeOptions = {},
+): Promise<AcmeDnsPerServerResult> {
+  const { followCname = true, timeoutMs = 4000, resolver: lookup = systemResolver } = opts;
+  const cnameChain: string[] = [];
+  let name = domain.replace(/\.$/, '');
+
+  for (;;) {
+    const located = await locateAuthoritative(name, lookup);
+    if (!located.ok) {
+      return { ...located.result, servers: [], ...(cnameChain.length > 0 && { cnameChain }) };
+    }
+    const { zone, nsHosts, nsIPs, resolver } = located;
+    const context = { zone, nsHosts, nsIPs, ...(cnameChain.length > 0 && { cnameChain }) };
+
+    const servers = await Promise.all(
+      nsIPs.map((server) => checkServer(server, name, expected, timeoutMs, lookup)),
+    );
+
+    // Follow an alias only when no server has TXT data at this name
+    const hasData = servers.some((server) => server.values.length > 0);
+    const target =
+      !hasData && followCname ? await resolveCnameTarget(resolver, name, timeoutMs) : undefined;
+    if (target) {
+      if (target === name || cnameChain.includes(target) || cnameChain.length >= MAX_CNAME_HOPS) {
+        return {
+          ok: false,
+          allValues: [],
+          reasons: [`CNAME chain for ${domain} loops or exceeds ${MAX_CNAME_HOPS} hops`],
+          servers: [],
+          ...context,
+        };
+      }
+      cnameChain.push(target);
+      name = target;
+      continue;
+    }
+
+    const failing = servers.filter((server) => !server.ok);
+    const matched = servers.find((server) => server.matched)?.matched;
     return {
-      ok: false,
-      allValues: [],
-      reasons: [`Failed to resolve TXT at authoritative servers for ${name}: ${String(e)}`],
-      zone,
-      nsHosts,
-      nsIPs,
+      ok: failing.length === 0,
+      ...(failing.length === 0 && matched && { matched }),
+      allValues: [...new Set(servers.flatMap((server) => server.values))],
+      ...(failing.length > 0 && {
+        reasons: failing.flatMap((server) =>
+          (server.reasons ?? []).map((reason) => `${server.server}: ${reason}`),
+        ),
+      }),
+      servers,
+      ...context,
     };
   }
-
-  const base = validateAcmeTxtSet(records, expected);
-  return { ...base, zone, nsHosts, nsIPs };
 }
 
 /**
- * Convenience: system resolver (non-authoritative). Kept for parity/testing.
+ * Convenience: recursive lookup (non-authoritative) through the system resolver,
+ * or through `opts.resolver` (e.g. DoH to see past a split-horizon DNS).
  */
 export async function resolveAndValidateAcmeTxt(
   domain: string,
   expected?: string,
+  opts: { resolver?: DnsResolver } = {},
 ): Promise<AcmeDnsValidationResult> {
   const name = `_acme-challenge.${domain}`.replace(/\.$/, '');
+  const { resolver = systemResolver } = opts;
   try {
-    const records = await resolveTxt(name);
+    const records = await resolver.resolveTxt(name);
     return validateAcmeTxtSet(records, expected);
   } catch (e) {
     return {
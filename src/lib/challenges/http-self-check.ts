@@ -0,0 +1,92 @@
+/**
+ * HTTP-01 Self-Check
+ *
+ * Fetches the public challenge URL before the CA is asked to validate it.
+ * A failed validation at the CA counts against its failed-validation limit,
+ * so the challenge should only be accepted once the response is reachable.
+ * Shared by `solveHttp01({ selfCheck })` and the built-in HTTP-01 responder.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8555#section-8.3
+ */
+
+import { validateHttp01ChallengeByUrl, type AcmeHttpValidationOptions } from './http-validator.js';
+import { ChallengeError } from '../errors/acme-operation-errors.js';
+import {
+  HTTP01_SELF_CHECK_ATTEMPTS,
+  HTTP01_SELF_CHECK_INITIAL_DELAY_MS,
+  HTTP01_SELF_CHECK_MAX_DELAY_MS,
+  HTTP01_SELF_CHECK_TIMEOUT_MS,
+} from '../constants/defaults.js';
+import { debugChallenge } from '../utils/debug.js';
+import { sleep } from '../transport/retry.js';
+
+/**
+ * Retry limits for the HTTP-01 self-check
+ */
+export interface HttpSelfCheckOptions {
+  /** Fetches before giving up (default: 5) */
+  attempts?: number;
+  /** Delay after the first failed fetch, doubled after each further one (default: 1 second) */
+  initialDelayMs?: number;
+  /** Upper bound for the delay between fetches (default: 16 seconds) */
+  maxDelayMs?: number;
+  /** Per-request timeout in milliseconds (default: 4000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for {@link selfCheckHttp01}
+ */
+export interface HttpSelfCheckRunOptions
+  extends HttpSelfCheckOptions, Omit<AcmeHttpValidationOptions, 'timeoutMs'> {
+  /** Identifier named in the error (default: host of the challenge URL) */
+  identifier?: string;
+}
+
+/**
+ * Fetch an HTTP-01 challenge URL until it serves the key authorization
+ *
+ * Retries with exponential backoff between attempts.
+ *
+ * @param url - Public challenge URL (`http://<domain>/.well-known/acme-challenge/<token>`)
+ * @param keyAuthorization - Expected response body
+ * @param opts - Retry limits and validator options
+ * @throws {ChallengeError} When no attempt sees the key authorization
+ */
+export async function selfCheckHttp01(
+  url: string,
+  keyAuthorization: string,
+  opts: HttpSelfCheckRunOptions = {},
+): Promise<void> {
+  const {
+    attempts: requestedAttempts,
+    initialDelayMs,
+    maxDelayMs = HTTP01_SELF_CHECK_MAX_DELAY_MS,
+    timeoutMs = HTTP01_SELF_CHECK_TIMEOUT_MS,
+    identifier = new URL(url).hostname,
+    ...validation
+  } = opts;
+  const attempts = Math.max(1, Math.floor(requestedAttempts ?? HTTP01_SELF_CHECK_ATTEMPTS));
+  let delay = initialDelayMs ?? HTTP01_SELF_CHECK_INITIAL_DELAY_MS;
+  let reasons: string[] = [];
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const result = await validateHttp01ChallengeByUrl(url, keyAuthorization, {
+      ...validation,
+      timeoutMs,
+    });
+    if (result.ok) {
+      debugChallenge('self-check for %s passed on attempt %d', identifier, attempt);
+      return;
+    }
+
+    reasons = result.reasons ?? [];
+    debugChallenge('self-check for %s failed on attempt %d: %j', identifier, attempt, reasons);
+    if (attempt < attempts) {
+      await sleep(Math.min(delay, maxDelayMs));
+      delay *= 2;
+    }
+  }
+
+  throw ChallengeError.selfCheckFailed(identifier, url, attempts, reasons);
+}
@@ -13,6 +13,7 @@
 import { request } from 'undici';
 import { isIP } from 'net';
 import { buildUserAgent } from '../utils/user-agent.js';
+import { toUrlHost } from '../utils/identifier.js';
 
 /** RFC 1123 hostname pattern (labels separated by dots, no trailing dot). */
 const HOSTNAME_RE = /^(?!-)[A-Za-z0-9-]{1,63}(?<!-)(\.[A-Za-z0-9-]{1,63})*$/;
@@ -62,7 +63,8 @@ function validateChallengeUrl(url: string): void {
   if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
     throw new Error(`Invalid protocol in challenge URL: ${parsed.protocol}`);
   }
-  validateDomain(parsed.hostname);
+  // URL keeps IPv6 literals bracketed in hostname
+  validateDomain(parsed.hostname.replace(/^\[(.*)\]$/, '$1'));
 }
 
 /**
@@ -97,7 +99,7 @@ export interface AcmeHttpValidationOptions {
  * RFC 8555 Section 8.3: The ACME server validates the challenge by performing
  * an HTTP GET request to the challenge URL.
  *
- * @param domain The domain being validated
+ * @param domain The domain or IP address being validated
  * @param token The challenge token from ACME server
  * @param expectedKeyAuth The expected key authorization value
  * @param opts Validation options
@@ -109,7 +111,7 @@ export async function validateHttp01Challenge(
   opts: AcmeHttpValidationOptions = {},
 ): Promise<AcmeHttpValidationResult> {
   validateDomain(domain);
-  const url = `http://${domain}/.well-known/acme-challenge/${token}`;
+  const url = `http://${toUrlHost(domain)}/.well-known/acme-challenge/${token}`;
   return validateHttp01ChallengeByUrl(url, expectedKeyAuth, opts);
 }
 
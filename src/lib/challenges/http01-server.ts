@@ -0,0 +1,148 @@
+/**
+ * RFC 8555 HTTP-01 Challenge Responder
+ *
+ * Minimal HTTP server that answers ACME validation requests from memory.
+ * Features:
+ * - Serves `/.well-known/acme-challenge/<token>` from an in-memory map
+ * - Drop-in `setHttp` / `removeHttp` / `waitFor` callbacks for `solveHttp01`
+ * - Self-check of the public challenge URL before the CA is asked to validate
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8555#section-8.3
+ */
+
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { selfCheckHttp01, type HttpSelfCheckRunOptions } from './http-self-check.js';
+
+const CHALLENGE_PATH_PREFIX = '/.well-known/acme-challenge/';
+
+/**
+ * Options for the built-in HTTP-01 responder
+ */
+export interface Http01ServerOptions {
+  /** Port to listen on (default: 80) */
+  port?: number;
+  /** Interface to bind (default: all interfaces) */
+  host?: string;
+  /** Self-check performed by `waitFor` (same defaults as `solveHttp01({ selfCheck })`) */
+  selfCheck?: Omit<HttpSelfCheckRunOptions, 'identifier'>;
+}
+
+/**
+ * Challenge data accepted by the responder (compatible with ChallengePreparation)
+ */
+export interface Http01ServerPreparation {
+  /** Challenge URL the validator will fetch */
+  target: string;
+  /** Key authorization to serve */
+  value: string;
+  /** May carry the challenge `token` (otherwise taken from the URL) */
+  additional?: Record<string, unknown>;
+}
+
+/**
+ * Running HTTP-01 responder
+ */
+export interface Http01Server {
+  /** Underlying Node.js HTTP server */
+  readonly server: Server;
+  /** Bound address (useful with port 0) */
+  readonly address: AddressInfo;
+  /** Serve a key authorization for a token */
+  setToken(token: string, keyAuthorization: string): void;
+  /** Stop serving a token */
+  remove(token: string): void;
+  /** `setHttp` callback for solveHttp01 */
+  setHttp(preparation: Http01ServerPreparation): Promise<void>;
+  /** `removeHttp` callback for solveHttp01 */
+  cleanup(preparation: Http01ServerPreparation): Promise<void>;
+  /**
+   * `waitFor` callback: fetches the public challenge URL until it serves the
+   * key authorization, throwing ChallengeError otherwise
+   */
+  waitFor(preparation: Http01ServerPreparation): Promise<void>;
+  /** Stop listening and drop all tokens */
+  close(): Promise<void>;
+}
+
+function tokenOf(preparation: Http01ServerPreparation): string {
+  const token = preparation.additional?.token;
+  if (typeof token === 'string') return token;
+  const { pathname } = new URL(preparation.target);
+  if (!pathname.startsWith(CHALLENGE_PATH_PREFIX)) {
+    throw new Error(`Not an HTTP-01 challenge URL: ${preparation.target}`);
+  }
+  return pathname.slice(CHALLENGE_PATH_PREFIX.length);
+}
+
+/**
+ * Start an HTTP server that answers HTTP-01 validation requests
+ *
+ * Requests for unknown tokens or other paths get a 404.
+ *
+ * @example
+ * ```typescript
+ * const responder = await createHttp01Server({ port: 80 });
+ * try {
+ *   await account.solveHttp01(order, {
+ *     setHttp: responder.setHttp,
+ *     removeHttp: responder.cleanup,
+ *     waitFor: responder.waitFor,
+ *   });
+ * } finally {
+ *   await responder.close();
+ * }
+ * ```
+ */
+export async function createHttp01Server(opts: Http01ServerOptions = {}): Promise<Http01Server> {
+  const tokens = new Map<string, string>();
+
+  const server = createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const keyAuthorization = pathname.startsWith(CHALLENGE_PATH_PREFIX)
+      ? tokens.get(pathname.slice(CHALLENGE_PATH_PREFIX.length))
+      : undefined;
+
+    if ((req.method !== 'GET' && req.method !== 'HEAD') || keyAuthorization === undefined) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not Found');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/octet-stream' }).end(keyAuthorization);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(opts.port ?? 80, opts.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const setToken = (token: string, keyAuthorization: string): void => {
+    tokens.set(token, keyAuthorization);
+  };
+
+  return {
+    server,
+    address: server.address() as AddressInfo,
+    setToken,
+    remove: (token) => {
+      tokens.delete(token);
+    },
+    setHttp: async (preparation) => {
+      setToken(tokenOf(preparation), preparation.value);
+    },
+    cleanup: async (preparation) => {
+      tokens.delete(tokenOf(preparation));
+    },
+    waitFor: (preparation) =>
+      selfCheckHttp01(preparation.target, preparation.value, opts.selfCheck),
+    close: async () => {
+      tokens.clear();
+      server.closeAllConnections();
+      await new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+      });
+    },
+  };
+}
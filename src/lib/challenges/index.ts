@@ -2,7 +2,7 @@
  * RFC 8555 ACME Challenge Validators
  *
  * Challenge validation modules for ACME protocol compliance.
- * Supports both DNS-01 and HTTP-01 challenge types as specified in RFC 8555.
+ * Supports DNS-01 and HTTP-01 (RFC 8555) plus a TLS-ALPN-01 responder (RFC 8737).
  */
 
 // DNS-01 Challenge Validation (RFC 8555 Section 8.4)
@@ -15,10 +15,21 @@ export {
   resolveAndValidateAcmeTxt,
   findZoneWithNs,
   resolveNsToIPs,
+  resolveAcmeTxtPerNameserver,
   type AcmeDnsValidationResult,
+  type AcmeDnsPerServerResult,
+  type AcmeDnsServerResult,
   type AuthoritativeOptions,
 } from './dns-txt-validator.js';
 
+// DNS-01 Propagation Waiter (RFC 8555 Section 8.4)
+export {
+  createDnsPropagationWaiter,
+  type DnsPropagationPreparation,
+  type DnsPropagationProgress,
+  type DnsPropagationWaiterOptions,
+} from './dns-propagation.js';
+
 // HTTP-01 Challenge Validation (RFC 8555 Section 8.3)
 export {
   validateHttp01Challenge,
@@ -26,3 +37,30 @@ export {
   type AcmeHttpValidationResult,
   type AcmeHttpValidationOptions,
 } from './http-validator.js';
+
+// HTTP-01 Self-Check (RFC 8555 Section 8.3)
+export { selfCheckHttp01, type HttpSelfCheckRunOptions } from './http-self-check.js';
+
+// HTTP-01 Responder (RFC 8555 Section 8.3)
+export {
+  createHttp01Server,
+  type Http01Server,
+  type Http01ServerOptions,
+  type Http01ServerPreparation,
+} from './http01-server.js';
+
+// HTTP-01 Webroot Provider (RFC 8555 Section 8.3)
+export {
+  createWebrootProvider,
+  type WebrootProvider,
+  type WebrootProviderOptions,
+  type WebrootPreparation,
+} from './webroot.js';
+
+// TLS-ALPN-01 Responder (RFC 8737)
+export {
+  createTlsAlpn01Server,
+  type TlsAlpn01Server,
+  type TlsAlpn01ServerOptions,
+  type TlsAlpn01ServerPreparation,
+} from './tls-alpn-server.js';
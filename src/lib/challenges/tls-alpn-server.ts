@@ -0,0 +1,140 @@
+/**
+ * RFC 8737 TLS-ALPN-01 Challenge Responder
+ *
+ * Minimal TLS server that answers ACME validation handshakes on `acme-tls/1`.
+ * Features:
+ * - Per-SNI validation certificates (domain or reverse-DNS name for IPs)
+ * - Drop-in `setTlsAlpn` / `cleanup` callbacks for `solveTlsAlpn01`
+ * - Explicit cleanup of served certificates
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8737#section-3
+ */
+
+import { createSecureContext, createServer, type SecureContext, type Server } from 'tls';
+import type { AddressInfo } from 'net';
+import { ACME_TLS_ALPN_PROTOCOL } from '../crypto/tls-alpn.js';
+
+/**
+ * Options for the built-in TLS-ALPN-01 responder
+ */
+export interface TlsAlpn01ServerOptions {
+  /** Port to listen on (default: 443) */
+  port?: number;
+  /** Interface to bind (default: all interfaces) */
+  host?: string;
+}
+
+/**
+ * Challenge data accepted by the responder (compatible with ChallengePreparation)
+ */
+export interface TlsAlpn01ServerPreparation {
+  /** SNI server name the validator will request */
+  target: string;
+  /** Must carry `certificate` and `privateKey` PEM strings */
+  additional?: Record<string, unknown>;
+}
+
+/**
+ * Running TLS-ALPN-01 responder
+ */
+export interface TlsAlpn01Server {
+  /** Underlying Node.js TLS server */
+  readonly server: Server;
+  /** Bound address (useful with port 0) */
+  readonly address: AddressInfo;
+  /** Serve a validation certificate for a server name */
+  setCertificate(servername: string, certificate: string, privateKey: string): void;
+  /** `setTlsAlpn` callback for solveTlsAlpn01 */
+  setTlsAlpn(preparation: TlsAlpn01ServerPreparation): Promise<void>;
+  /** `removeTlsAlpn` callback for solveTlsAlpn01 */
+  cleanup(preparation: TlsAlpn01ServerPreparation): Promise<void>;
+  /** Stop serving the certificate for a server name */
+  remove(servername: string): void;
+  /** Stop listening and drop all certificates */
+  close(): Promise<void>;
+}
+
+/**
+ * Start a TLS server that negotiates `acme-tls/1` and serves validation
+ * certificates selected by SNI
+ *
+ * Handshakes for unknown server names are rejected.
+ *
+ * @example
+ * ```typescript
+ * const responder = await createTlsAlpn01Server({ port: 443 });
+ * try {
+ *   await account.solveTlsAlpn01(order, {
+ *     setTlsAlpn: responder.setTlsAlpn,
+ *     removeTlsAlpn: responder.cleanup,
+ *     waitFor: async () => {},
+ *   });
+ * } finally {
+ *   await responder.close();
+ * }
+ * ```
+ */
+export async function createTlsAlpn01Server(
+  opts: TlsAlpn01ServerOptions = {},
+): Promise<TlsAlpn01Server> {
+  const contexts = new Map<string, SecureContext>();
+
+  const server = createServer({
+    ALPNProtocols: [ACME_TLS_ALPN_PROTOCOL],
+    SNICallback: (servername, cb) => {
+      const context = contexts.get(servername.toLowerCase());
+      if (context) {
+        cb(null, context);
+      } else {
+        cb(new Error(`No TLS-ALPN-01 certificate for "${servername}"`));
+      }
+    },
+  });
+
+  // Validators only complete the handshake; drop the connection afterwards
+  server.on('secureConnection', (socket) => socket.end());
+  server.on('tlsClientError', () => {
+    // Failed handshakes (unknown SNI, wrong ALPN) are expected noise
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(opts.port ?? 443, opts.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const setCertificate = (servername: string, certificate: string, privateKey: string): void => {
+    contexts.set(
+      servername.toLowerCase(),
+      createSecureContext({ cert: certificate, key: privateKey }),
+    );
+  };
+
+  return {
+    server,
+    address: server.address() as AddressInfo,
+    setCertificate,
+    setTlsAlpn: async (preparation) => {
+      const certificate = preparation.additional?.certificate;
+      const privateKey = preparation.additional?.privateKey;
+      if (typeof certificate !== 'string' || typeof privateKey !== 'string') {
+        throw new Error('TLS-ALPN-01 preparation is missing certificate or privateKey');
+      }
+      setCertificate(preparation.target, certificate, privateKey);
+    },
+    cleanup: async (preparation) => {
+      contexts.delete(preparation.target.toLowerCase());
+    },
+    remove: (servername) => {
+      contexts.delete(servername.toLowerCase());
+    },
+    close: async () => {
+      contexts.clear();
+      await new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+      });
+    },
+  };
+}
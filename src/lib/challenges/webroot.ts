@@ -0,0 +1,155 @@
+/**
+ * RFC 8555 HTTP-01 Webroot Provider
+ *
+ * Writes key authorizations into the document root of an existing web server.
+ * Features:
+ * - `<webroot>/.well-known/acme-challenge/<token>` files with fixed permissions
+ * - Path-traversal and symlink-escape checks before anything is written
+ * - Per-identifier webroots with an optional default
+ * - Drop-in `setHttp` / `removeHttp` callbacks for `solveHttp01`
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8555#section-8.3
+ */
+
+import { lstat, mkdir, open, realpath, unlink } from 'fs/promises';
+import { join, resolve, sep } from 'path';
+
+const CHALLENGE_DIR = join('.well-known', 'acme-challenge');
+const CHALLENGE_PATH_PREFIX = '/.well-known/acme-challenge/';
+
+/** RFC 8555 Section 8.1: tokens are base64url without padding */
+const TOKEN_RE = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Options for the webroot provider
+ */
+export interface WebrootProviderOptions {
+  /** Webroot for identifiers without an entry in `webroots` */
+  webroot?: string;
+  /** Webroot per identifier (domain or IP address) */
+  webroots?: Record<string, string>;
+  /** Mode of written challenge files (default: 0o644, readable by the web server) */
+  fileMode?: number;
+  /** Mode of created directories (default: 0o755) */
+  dirMode?: number;
+}
+
+/**
+ * Challenge data accepted by the provider (compatible with ChallengePreparation)
+ */
+export interface WebrootPreparation {
+  /** Challenge URL; its host selects the webroot */
+  target: string;
+  /** Key authorization to write */
+  value: string;
+  /** May carry the challenge `token` (otherwise taken from the URL) */
+  additional?: Record<string, unknown>;
+}
+
+/**
+ * HTTP-01 provider backed by web server document roots
+ */
+export interface WebrootProvider {
+  /** Absolute path of the challenge file for a preparation */
+  pathFor(preparation: WebrootPreparation): string;
+  /** `setHttp` callback for solveHttp01 */
+  setHttp(preparation: WebrootPreparation): Promise<void>;
+  /** `removeHttp` callback for solveHttp01 */
+  cleanup(preparation: WebrootPreparation): Promise<void>;
+}
+
+function isWithin(parent: string, child: string): boolean {
+  return child.startsWith(parent.endsWith(sep) ? parent : parent + sep);
+}
+
+/**
+ * Create an HTTP-01 provider that writes challenge files below webroots
+ *
+ * @example
+ * ```typescript
+ * const webroot = createWebrootProvider({
+ *   webroot: '/var/www/html',
+ *   webroots: { 'api.example.com': '/srv/api/public' },
+ * });
+ * await account.solveHttp01(order, {
+ *   setHttp: webroot.setHttp,
+ *   removeHttp: webroot.cleanup,
+ *   waitFor: async () => {},
+ * });
+ * ```
+ */
+export function createWebrootProvider(opts: WebrootProviderOptions): WebrootProvider {
+  const fileMode = opts.fileMode ?? 0o644;
+  const dirMode = opts.dirMode ?? 0o755;
+  const webroots = new Map(
+    Object.entries(opts.webroots ?? {}).map(([host, root]) => [host.toLowerCase(), root]),
+  );
+
+  const locate = (preparation: WebrootPreparation): { root: string; file: string } => {
+    const url = new URL(preparation.target);
+    const host = url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+    const webroot = webroots.get(host) ?? opts.webroot;
+    if (!webroot) {
+      throw new Error(`No webroot configured for ${host}`);
+    }
+
+    const additionalToken = preparation.additional?.token;
+    const token =
+      typeof additionalToken === 'string'
+        ? additionalToken
+        : url.pathname.startsWith(CHALLENGE_PATH_PREFIX)
+          ? url.pathname.slice(CHALLENGE_PATH_PREFIX.length)
+          : '';
+    if (!TOKEN_RE.test(token)) {
+      throw new Error(`Invalid HTTP-01 token for ${host}: "${token.slice(0, 40)}"`);
+    }
+
+    const root = resolve(webroot);
+    const file = resolve(root, CHALLENGE_DIR, token);
+    if (!isWithin(root, file)) {
+      throw new Error(`Challenge file for ${host} would be written outside the webroot`);
+    }
+    return { root, file };
+  };
+
+  return {
+    pathFor: (preparation) => locate(preparation).file,
+    setHttp: async (preparation) => {
+      const { root, file } = locate(preparation);
+      const dir = resolve(root, CHALLENGE_DIR);
+      await mkdir(dir, { recursive: true, mode: dirMode });
+
+      // A symlinked .well-known must not redirect writes outside the webroot
+      const [realRoot, realDir] = await Promise.all([realpath(root), realpath(dir)]);
+      if (!isWithin(realRoot, realDir)) {
+        throw new Error(`Challenge directory ${dir} resolves outside the webroot`);
+      }
+
+      // Nor may a symlink planted at the token path; 'wx' never follows one
+      const existing = await lstat(file).catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return undefined;
+        throw error;
+      });
+      if (existing?.isSymbolicLink()) {
+        throw new Error(`Challenge file ${file} is a symlink; refusing to write through it`);
+      }
+      if (existing) await unlink(file);
+
+      const handle = await open(file, 'wx', fileMode);
+      try {
+        await handle.writeFile(preparation.value);
+        // The creation mode is subject to umask
+        await handle.chmod(fileMode);
+      } finally {
+        await handle.close();
+      }
+    },
+    cleanup: async (preparation) => {
+      try {
+        await unlink(locate(preparation).file);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    },
+  };
+}
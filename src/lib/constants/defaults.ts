@@ -1,7 +1,8 @@
 /**
  * Default configuration constants for ACME Love
  *
- * Centralized defaults for nonce management, rate limiting, and order polling.
+ * Centralized defaults for nonce management, rate limiting, order polling and
+ * the HTTP-01 self-check.
  * These values are used as fallbacks when no explicit configuration is provided.
  */
 
@@ -12,12 +13,20 @@ export const NONCE_PREFETCH_LOW_WATER = 5;
 export const NONCE_PREFETCH_HIGH_WATER = 10;
 export const NONCE_WAITER_TIMEOUT_MS = 30_000; // 30 seconds
 
-// Order polling defaults
-export const ORDER_POLL_MAX_ATTEMPTS = 60;
-export const ORDER_POLL_INTERVAL_MS = 5_000; // 5 seconds
+// Order and authorization polling defaults
+export const ORDER_POLL_INTERVAL_MS = 5_000; // 5 seconds, used when no Retry-After is sent
+export const ORDER_POLL_MIN_INTERVAL_MS = 1_000; // 1 second
+export const ORDER_POLL_MAX_INTERVAL_MS = 60_000; // 1 minute
+export const ORDER_POLL_MAX_WAIT_MS = 5 * 60 * 1_000; // 5 minutes
 
 // Rate limiter defaults
 export const RATE_LIMIT_MIN_INTERVAL_MS = 100;
 export const RATE_LIMIT_MAX_RETRIES = 3;
 export const RATE_LIMIT_BASE_DELAY_MS = 1_000;
 export const RATE_LIMIT_MAX_DELAY_MS = 5 * 60 * 1_000; // 5 minutes
+
+// HTTP-01 self-check defaults
+export const HTTP01_SELF_CHECK_ATTEMPTS = 5;
+export const HTTP01_SELF_CHECK_INITIAL_DELAY_MS = 1_000; // doubled after every failed attempt
+export const HTTP01_SELF_CHECK_MAX_DELAY_MS = 16_000;
+export const HTTP01_SELF_CHECK_TIMEOUT_MS = 4_000;
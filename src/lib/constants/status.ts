@@ -28,6 +28,8 @@ export const ACME_ORDER_STATUS = {
   VALID: 'valid' as const,
   /** Order has failed and cannot be completed */
   INVALID: 'invalid' as const,
+  /** STAR order whose automatic renewal was canceled (RFC 8739) */
+  CANCELED: 'canceled' as const,
 } as const;
 
 /**
@@ -13,23 +13,57 @@ import {
   type AccountKeys,
   type ExternalAccountBinding,
 } from './acme-request-signer.js';
-import { AcmeOrderManager } from './acme-order-manager.js';
-import { AcmeChallengeSolver, type ChallengePreparation } from './acme-challenge-solver.js';
+import {
+  AcmeOrderManager,
+  type AcmeCertificateChain,
+  type CreateOrderOptions,
+  type DownloadCertificateOptions,
+} from './acme-order-manager.js';
+import {
+  AcmeChallengeSolver,
+  type ChallengePreparation,
+  type HttpSelfCheckOptions,
+  type SolveAuthorizationOptions,
+  type SolveConcurrencyOptions,
+  type SolveOptions,
+} from './acme-challenge-solver.js';
 import type { NonceManagerOptions } from '../managers/nonce-manager.js';
 import type {
   AcmeOrder,
   AcmeOrderStatus,
   AcmeAuthorization,
+  AcmeAuthorizationResult,
   AcmeChallenge,
 } from '../types/order.js';
 import type { AcmeDirectory } from '../types/directory.js';
+import type { AcmeAccountObject } from '../types/account.js';
+import type { AcmeRenewalInfo, AcmeRenewalInfoResult } from '../types/renewal-info.js';
 import { createErrorFromProblem } from '../errors/factory.js';
-import { AccountError } from '../errors/acme-operation-errors.js';
-import { pemToBase64Url } from '../utils/index.js';
+import { AccountError, OrderError } from '../errors/acme-operation-errors.js';
+import { getAriCertificateId } from '../crypto/certificate.js';
+import { getRetryAfterMs, type PollOptions } from '../transport/retry.js';
+import { buildRevocationPayload } from './acme-revocation.js';
+import { checkCaa, type CaaCheckOptions, type CaaCheckResult } from '../dns/caa.js';
 
 // Re-export types that were originally defined here
 export type { AccountKeys, ExternalAccountBinding } from './acme-request-signer.js';
-export type { ChallengePreparation } from './acme-challenge-solver.js';
+export type {
+  ChallengeHandler,
+  ChallengePreferences,
+  ChallengePreparation,
+  ChallengeStrategy,
+  ChallengeStrategyCallback,
+  HttpSelfCheckOptions,
+  SolveAuthorizationOptions,
+  SolveConcurrencyOptions,
+  SolveOptions,
+} from './acme-challenge-solver.js';
+export type {
+  AcmeCertificateChain,
+  AutoRenewalOptions,
+  CreateOrderOptions,
+  DownloadCertificateOptions,
+} from './acme-order-manager.js';
 
 /**
  * Payload for ACME account registration
@@ -43,6 +77,33 @@ export interface AcmeAccountRegistrationPayload {
   termsOfServiceAgreed: true;
 }
 
+/**
+ * Normalize contact emails to mailto: URIs
+ */
+function toContactUris(contact: string[] | string): string[] {
+  const contactsArray = Array.isArray(contact) ? contact : [contact];
+  return contactsArray.map((email) => (email.startsWith('mailto:') ? email : `mailto:${email}`));
+}
+
+/**
+ * Extract and validate the account URL from a newAccount Location header
+ */
+function accountUrlFromLocation(location: string | string[] | undefined): string {
+  const accountUrl = Array.isArray(location) ? location[0] : location;
+  if (!accountUrl) {
+    throw AccountError.noAccountUrl();
+  }
+  try {
+    const parsed = new URL(accountUrl);
+    if (parsed.protocol !== 'https:') {
+      throw new Error('non-HTTPS');
+    }
+  } catch {
+    throw new Error(`Invalid account URL in Location header: "${accountUrl}"`);
+  }
+  return accountUrl;
+}
+
 /**
  * Configuration options for ACME account operations
  *
@@ -136,18 +197,15 @@ export class AcmeAccount {
     termsOfServiceAgreed,
   }: AcmeAccountRegistrationPayload): Promise<{
     accountUrl: string;
-    account: Record<string, unknown>;
+    account: AcmeAccountObject;
   }> {
     const directory = await this.getDirectory();
-    const contactsArray = Array.isArray(contact) ? contact : [contact];
     const payload: {
       contact: string[];
       termsOfServiceAgreed: true;
       externalAccountBinding?: string;
     } = {
-      contact: contactsArray.map((email) =>
-        email.startsWith('mailto:') ? email : `mailto:${email}`,
-      ),
+      contact: toContactUris(contact),
       termsOfServiceAgreed,
     };
 
@@ -164,44 +222,104 @@ export class AcmeAccount {
       throw createErrorFromProblem(response.body);
     }
 
-    const accountUrl = response.headers.location as string;
-    if (!accountUrl) {
-      throw AccountError.noAccountUrl();
-    }
-    try {
-      const parsed = new URL(accountUrl);
-      if (parsed.protocol !== 'https:') {
-        throw new Error('non-HTTPS');
-      }
-    } catch {
-      throw new Error(`Invalid account URL in Location header: "${accountUrl}"`);
-    }
-
+    const accountUrl = accountUrlFromLocation(response.headers.location);
     this.signer.kid = accountUrl;
 
     return {
       accountUrl,
-      account: response.body as Record<string, unknown>,
+      account: response.body as AcmeAccountObject,
     };
   }
 
+  /**
+   * Find the existing account bound to this key
+   *
+   * Posts `onlyReturnExisting` to newAccount so the server never creates an
+   * account. Useful to recover a lost kid. On success the kid is set on this
+   * account instance.
+   *
+   * @returns The account URL (kid)
+   * @throws {AccountDoesNotExistError} When no account exists for this key
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.3.1
+   */
+  public async lookup(): Promise<string> {
+    const directory = await this.getDirectory();
+    const response = await this.signer.signedPost(
+      directory.newAccount,
+      { onlyReturnExisting: true },
+      true,
+    );
+
+    if (response.statusCode !== 200) {
+      throw createErrorFromProblem(response.body);
+    }
+
+    const accountUrl = accountUrlFromLocation(response.headers.location);
+    this.signer.kid = accountUrl;
+
+    return accountUrl;
+  }
+
   /**
    * Get account information via POST-as-GET
    *
    * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.3.2
    */
-  public async getAccount(): Promise<Record<string, unknown>> {
+  public async getAccount(): Promise<AcmeAccountObject> {
+    return this.postToAccount(null);
+  }
+
+  /**
+   * Replace the account contact list
+   *
+   * @param contacts - Contact emails (may include or omit mailto:)
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.3.2
+   */
+  public async updateContact(contacts: string[] | string): Promise<AcmeAccountObject> {
+    return this.postToAccount({ contact: toContactUris(contacts) });
+  }
+
+  /**
+   * Deactivate the account
+   *
+   * Deactivation is irreversible. Once the server confirms it, every later
+   * signed request made through this account fails locally with an
+   * AccountError instead of being sent to the server.
+   *
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.3.6
+   */
+  public async deactivate(): Promise<AcmeAccountObject> {
+    return this.postToAccount({ status: 'deactivated' });
+  }
+
+  /**
+   * Roll over the account key
+   *
+   * Sends a keyChange request whose payload is an inner JWS signed by the new
+   * key. On success the signer switches to the new key pair; the kid stays
+   * the same.
+   *
+   * @param newKeys - Key pair that replaces the current account key
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.3.5
+   */
+  public async rolloverKey(newKeys: AccountKeys): Promise<void> {
     if (!this.signer.kid) {
       throw AccountError.notRegistered();
     }
 
-    const response = await this.signer.signedPost(this.signer.kid, null);
+    const directory = await this.getDirectory();
+    if (!directory.keyChange) {
+      throw AccountError.keyChangeUnsupported();
+    }
+
+    const innerJws = await this.signer.createKeyChangeJws(newKeys, directory.keyChange);
+    const response = await this.signer.signedPost(directory.keyChange, { ...innerJws });
 
     if (response.statusCode !== 200) {
       throw createErrorFromProblem(response.body);
     }
 
-    return response.body as Record<string, unknown>;
+    this.signer.replaceKeys(newKeys);
   }
 
   /**
@@ -230,20 +348,56 @@ export class AcmeAccount {
 
   // --- Order management (delegated to AcmeOrderManager) ---
 
-  public async createOrder(identifiers: string[]): Promise<AcmeOrder> {
-    return this.orders.createOrder(identifiers);
+  /**
+   * Check CAA records for an identifier before ordering
+   *
+   * Matches this CA's `caaIdentities` and, once the account is registered,
+   * the account URL against RFC 8657 `accounturi` bindings.
+   *
+   * @param domain - Domain name (or `*.` wildcard) to be ordered
+   * @param opts - Challenge type to match against `validationmethods`
+   * @see https://datatracker.ietf.org/doc/html/rfc8659
+   */
+  public async checkCaa(
+    domain: string,
+    opts: Omit<CaaCheckOptions, 'accountUri'> = {},
+  ): Promise<CaaCheckResult> {
+    const directory = await this.getDirectory();
+    return checkCaa(domain, directory, { ...opts, ...(this.kid && { accountUri: this.kid }) });
+  }
+
+  public async createOrder(
+    identifiers: string[],
+    options: CreateOrderOptions = {},
+  ): Promise<AcmeOrder> {
+    return this.orders.createOrder(identifiers, options);
   }
 
   public async finalize(order: AcmeOrder, csrDerBase64Url: string): Promise<AcmeOrder> {
     return this.orders.finalize(order, csrDerBase64Url);
   }
 
-  public async waitOrder(order: AcmeOrder, targetStatuses: AcmeOrderStatus[]): Promise<AcmeOrder> {
-    return this.orders.waitOrder(order, targetStatuses);
+  public async waitOrder(
+    order: AcmeOrder,
+    targetStatuses: AcmeOrderStatus[],
+    options: PollOptions = {},
+  ): Promise<AcmeOrder> {
+    return this.orders.waitOrder(order, targetStatuses, options);
+  }
+
+  public async cancelAutoRenewal(order: AcmeOrder): Promise<AcmeOrder> {
+    return this.orders.cancelAutoRenewal(order);
+  }
+
+  public async downloadCertificate(
+    order: AcmeOrder,
+    options: DownloadCertificateOptions = {},
+  ): Promise<string> {
+    return this.orders.downloadCertificate(order, options);
   }
 
-  public async downloadCertificate(order: AcmeOrder): Promise<string> {
-    return this.orders.downloadCertificate(order);
+  public async listAlternateChains(order: AcmeOrder): Promise<AcmeCertificateChain[]> {
+    return this.orders.listAlternateChains(order);
   }
 
   /**
@@ -251,34 +405,100 @@ export class AcmeAccount {
    *
    * @param certificatePem - PEM-encoded certificate (full chain or leaf only)
    * @param reason - Optional RFC 5280 CRL reason code (0-5)
+   * @see revokeCertificateWithKey for revocation without the issuing account
    * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.6
    */
   public async revokeCertificate(certificatePem: string, reason?: number): Promise<void> {
     const directory = await this.getDirectory();
-    const derBase64Url = pemToBase64Url(certificatePem);
+    const payload = buildRevocationPayload(certificatePem, reason);
+
+    const response = await this.signer.signedPost(directory.revokeCert, payload);
 
-    const payload: Record<string, unknown> = { certificate: derBase64Url };
-    if (reason !== undefined) {
-      payload.reason = reason;
+    if (response.statusCode !== 200) {
+      throw createErrorFromProblem(response.body);
     }
+  }
 
-    const response = await this.signer.signedPost(directory.revokeCert, payload);
+  /**
+   * Fetch ACME Renewal Information for a certificate
+   *
+   * The renewalInfo resource is fetched with a plain GET (no JWS). Pass the
+   * returned certificate ID as `replaces` when creating the renewal order.
+   *
+   * @param certificatePem - PEM-encoded certificate (full chain or leaf only)
+   * @returns Suggested renewal window plus the Retry-After delay, if any
+   * @see https://datatracker.ietf.org/doc/html/rfc9773#section-4
+   */
+  public async getRenewalInfo(certificatePem: string): Promise<AcmeRenewalInfoResult> {
+    const directory = await this.getDirectory();
+    if (!directory.renewalInfo) {
+      throw OrderError.renewalInfoUnsupported();
+    }
+
+    const certId = getAriCertificateId(certificatePem);
+    const url = `${directory.renewalInfo.replace(/\/+$/, '')}/${certId}`;
+    const response = await this.signer.unsignedGet(url);
 
     if (response.statusCode !== 200) {
       throw createErrorFromProblem(response.body);
     }
+
+    return {
+      ...(response.body as AcmeRenewalInfo),
+      retryAfterMs: getRetryAfterMs(response.headers as Record<string, string | string[]>),
+    };
   }
 
   // --- Challenge solving (delegated to AcmeChallengeSolver) ---
 
-  public async getAuthorization(authzUrl: string): Promise<AcmeAuthorization> {
+  public async getAuthorization(authzUrl: string): Promise<AcmeAuthorizationResult> {
     const response = await this.signer.signedPost(authzUrl, null);
 
     if (response.statusCode !== 200) {
       throw createErrorFromProblem(response.body);
     }
 
-    return response.body as AcmeAuthorization;
+    const retryAfterMs = getRetryAfterMs(response.headers as Record<string, string | string[]>);
+    return {
+      ...(response.body as AcmeAuthorization),
+      ...(retryAfterMs !== null && { retryAfterMs }),
+    };
+  }
+
+  /**
+   * Pre-authorize an identifier through the directory's newAuthz endpoint
+   *
+   * Satisfy the returned authorization with solveAuthorization; later
+   * orders for the identifier can then reuse it while it remains valid.
+   *
+   * @param identifier - Domain name or IP address (not a wildcard)
+   * @throws AuthorizationError for wildcard identifiers or if the CA does not advertise newAuthz
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.4.1
+   */
+  public async preAuthorize(identifier: string): Promise<AcmeAuthorization> {
+    return this.challenges.preAuthorize(identifier);
+  }
+
+  public async solveAuthorization(
+    authzUrl: string,
+    opts: SolveAuthorizationOptions,
+  ): Promise<AcmeAuthorization> {
+    return this.challenges.solveAuthorization(authzUrl, opts);
+  }
+
+  public async waitAuthorization(
+    authzUrl: string,
+    options: PollOptions = {},
+  ): Promise<AcmeAuthorization> {
+    return this.challenges.waitAuthorization(authzUrl, options);
+  }
+
+  public async deactivateAuthorization(authzUrl: string): Promise<AcmeAuthorization> {
+    return this.challenges.deactivateAuthorization(authzUrl);
+  }
+
+  public async deactivateOrderAuthorizations(order: AcmeOrder): Promise<AcmeAuthorization[]> {
+    return this.challenges.deactivateOrderAuthorizations(order);
   }
 
   public async getChallenge(challengeUrl: string): Promise<AcmeChallenge> {
@@ -294,7 +514,9 @@ export class AcmeAccount {
     opts: {
       waitFor: (preparation: ChallengePreparation) => Promise<void>;
       setDns: (preparation: ChallengePreparation) => Promise<void>;
-    },
+      removeDns?: (preparation: ChallengePreparation) => Promise<void>;
+      onCleanupError?: (error: Error, preparation: ChallengePreparation) => void;
+    } & SolveConcurrencyOptions,
   ): Promise<AcmeOrder> {
     return this.challenges.solveDns01(order, opts);
   }
@@ -304,8 +526,49 @@ export class AcmeAccount {
     opts: {
       waitFor: (preparation: ChallengePreparation) => Promise<void>;
       setHttp: (preparation: ChallengePreparation) => Promise<void>;
-    },
+      removeHttp?: (preparation: ChallengePreparation) => Promise<void>;
+      onCleanupError?: (error: Error, preparation: ChallengePreparation) => void;
+      selfCheck?: boolean | HttpSelfCheckOptions;
+    } & SolveConcurrencyOptions,
   ): Promise<AcmeOrder> {
     return this.challenges.solveHttp01(order, opts);
   }
+
+  public async solveTlsAlpn01(
+    order: AcmeOrder,
+    opts: {
+      waitFor: (preparation: ChallengePreparation) => Promise<void>;
+      setTlsAlpn: (preparation: ChallengePreparation) => Promise<void>;
+      removeTlsAlpn?: (preparation: ChallengePreparation) => Promise<void>;
+      onCleanupError?: (error: Error, preparation: ChallengePreparation) => void;
+    } & SolveConcurrencyOptions,
+  ): Promise<AcmeOrder> {
+    return this.challenges.solveTlsAlpn01(order, opts);
+  }
+
+  public async solve(order: AcmeOrder, opts: SolveOptions): Promise<AcmeOrder> {
+    return this.challenges.solve(order, opts);
+  }
+
+  /**
+   * POST to the account URL and track server-reported deactivation
+   */
+  private async postToAccount(payload: Record<string, unknown> | null): Promise<AcmeAccountObject> {
+    if (!this.signer.kid) {
+      throw AccountError.notRegistered();
+    }
+
+    const response = await this.signer.signedPost(this.signer.kid, payload);
+
+    if (response.statusCode !== 200) {
+      throw createErrorFromProblem(response.body);
+    }
+
+    const account = response.body as AcmeAccountObject;
+    if (account?.status === 'deactivated') {
+      this.signer.markDeactivated();
+    }
+
+    return account;
+  }
 }
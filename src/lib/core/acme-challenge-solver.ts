@@ -1,16 +1,18 @@
 /**
  * ACME Challenge Solver
  *
- * Handles authorization retrieval and challenge solving for DNS-01 and HTTP-01
- * validation methods per RFC 8555 Sections 7.5 and 8.
+ * Handles authorization retrieval and challenge solving for DNS-01, HTTP-01
+ * and TLS-ALPN-01 validation methods per RFC 8555 Sections 7.5 and 8.
  *
  * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.5
  * @see https://datatracker.ietf.org/doc/html/rfc8555#section-8
+ * @see https://datatracker.ietf.org/doc/html/rfc8737
  */
 
 import type {
   AcmeOrder,
   AcmeAuthorization,
+  AcmeAuthorizationResult,
   AcmeChallenge,
   AcmeChallengeType,
 } from '../types/order.js';
@@ -22,10 +24,27 @@ import {
 } from '../types/status.js';
 import { createErrorFromProblem } from '../errors/factory.js';
 import { debugChallenge } from '../utils/debug.js';
-import { AuthorizationError, ChallengeError } from '../errors/acme-operation-errors.js';
+import { ipToReverseDnsName, toAcmeIdentifier, toUrlHost } from '../utils/identifier.js';
+import { createTlsAlpn01Certificate } from '../crypto/tls-alpn.js';
+import { selfCheckHttp01, type HttpSelfCheckOptions } from '../challenges/http-self-check.js';
+import {
+  AuthorizationError,
+  ChallengeError,
+  type AuthorizationFailure,
+} from '../errors/acme-operation-errors.js';
+import {
+  calculatePollDelay,
+  getRetryAfterMs,
+  resolvePollOptions,
+  sleep,
+  type PollOptions,
+} from '../transport/retry.js';
 import type { AcmeRequestSigner } from './acme-request-signer.js';
 import type { AcmeOrderManager } from './acme-order-manager.js';
 
+// Re-export types that were originally defined here
+export type { HttpSelfCheckOptions } from '../challenges/http-self-check.js';
+
 /** Challenge preparation data passed to user callbacks */
 export interface ChallengePreparation {
   target: string;
@@ -33,6 +52,129 @@ export interface ChallengePreparation {
   additional?: Record<string, unknown>;
 }
 
+/**
+ * Provisioning and wait callbacks for one challenge type
+ */
+export interface ChallengeHandler {
+  /** Callback to provision the challenge response (TXT record, file, certificate) */
+  setChallenge: (preparation: ChallengePreparation) => Promise<void>;
+  /** Callback to wait until the response is visible to the CA */
+  waitFor: (preparation: ChallengePreparation) => Promise<void>;
+  /**
+   * Callback to remove the challenge response once the authorization is final.
+   * Runs whenever setChallenge was invoked, including after errors and timeouts.
+   */
+  cleanup?: (preparation: ChallengePreparation) => Promise<void>;
+  /**
+   * Receives cleanup failures. When omitted, a cleanup failure after a failed
+   * authorization is appended to `cleanupErrors` on the original error; after
+   * a valid one it is emitted as a process warning (ChallengeError).
+   */
+  onCleanupError?: (error: Error, preparation: ChallengePreparation) => void;
+  /**
+   * Fetch the http-01 URL after waitFor and only accept the challenge once the
+   * key authorization is served (default: false). Ignored for other types.
+   */
+  selfCheck?: boolean | HttpSelfCheckOptions;
+}
+
+/**
+ * Options for satisfying a single authorization
+ */
+export interface SolveAuthorizationOptions extends ChallengeHandler {
+  /** Challenge type to complete (dns-01, http-01 or tls-alpn-01) */
+  challengeType: AcmeChallengeType;
+  /** Limits for polling the authorization after the challenge is triggered */
+  poll?: PollOptions;
+}
+
+/**
+ * Callback choosing the challenge type for an authorization
+ *
+ * Return `undefined` to fall back to the first offered type with a registered handler.
+ */
+export type ChallengeStrategyCallback = (
+  authorization: AcmeAuthorization,
+) => AcmeChallengeType | undefined | Promise<AcmeChallengeType | undefined>;
+
+/**
+ * Declarative challenge preferences, each an ordered list of challenge types.
+ * The first type the authorization offers and a handler is registered for wins.
+ */
+export interface ChallengePreferences {
+  /** Preferences keyed by identifier value; wildcard authorizations match `*.example.com` */
+  identifiers?: Record<string, AcmeChallengeType[]>;
+  /** Preferences for wildcard authorizations (the CA offers dns-01 only) */
+  wildcard?: AcmeChallengeType[];
+  /** Preferences for all other authorizations (default: handler registration order) */
+  default?: AcmeChallengeType[];
+}
+
+/** Per-authorization challenge selection: a callback or declarative preferences */
+export type ChallengeStrategy = ChallengeStrategyCallback | ChallengePreferences;
+
+/**
+ * Parallelism for solving the authorizations of an order
+ */
+export interface SolveConcurrencyOptions {
+  /**
+   * Authorizations provisioned, awaited and accepted in parallel (default: 1, sequential).
+   * Above 1, every authorization is attempted and failures are reported together
+   * as one AuthorizationError.
+   */
+  concurrency?: number;
+  /** Invoke the set callbacks one at a time, in authorization order (default: false) */
+  ordered?: boolean;
+}
+
+/**
+ * Options for solving an order with a per-identifier challenge strategy
+ */
+export interface SolveOptions extends SolveConcurrencyOptions {
+  /** Handlers per challenge type, e.g. `{ 'dns-01': dnsHandler, 'http-01': httpHandler }` */
+  handlers: Partial<Record<AcmeChallengeType, ChallengeHandler>>;
+  /** How to pick the challenge type per authorization (default: handler registration order) */
+  strategy?: ChallengeStrategy;
+  /** Limits for polling the order after the challenges are triggered */
+  poll?: PollOptions;
+}
+
+/** Resolves the challenge type and callbacks for one authorization */
+type ChallengeSelector = (authorization: AcmeAuthorization) => Promise<SolveAuthorizationOptions>;
+
+type ChallengePreparer = (
+  authorization: AcmeAuthorization,
+  keyAuth: string,
+  challenge: AcmeChallenge,
+) => Promise<ChallengePreparation>;
+
+/**
+ * Challenge response builders per challenge type
+ */
+const CHALLENGE_PREPARERS: Record<AcmeChallengeType, ChallengePreparer> = {
+  [CHALLENGE_TYPE.DNS_01]: async (authorization, keyAuth) => {
+    const { createHash } = await import('crypto');
+    const txtValue = createHash('sha256').update(keyAuth).digest('base64url');
+    const fqdn = `_acme-challenge.${authorization.identifier.value}`;
+    return { target: fqdn, value: txtValue };
+  },
+  [CHALLENGE_TYPE.HTTP_01]: async (authorization, keyAuth, challenge) => {
+    const host = toUrlHost(authorization.identifier.value);
+    const url = `http://${host}/.well-known/acme-challenge/${challenge.token}`;
+    return { target: url, value: keyAuth, additional: { token: challenge.token } };
+  },
+  [CHALLENGE_TYPE.TLS_ALPN_01]: async (authorization, keyAuth, challenge) => {
+    const { type, value } = authorization.identifier;
+    const servername = type === 'ip' ? ipToReverseDnsName(value) : value;
+    const { certificate, privateKey } = await createTlsAlpn01Certificate(value, keyAuth);
+    return {
+      target: servername,
+      value: keyAuth,
+      additional: { token: challenge.token, identifier: value, certificate, privateKey },
+    };
+  },
+};
+
 /**
  * Check for challenge-level errors in an authorization response
  */
@@ -55,6 +197,41 @@ function throwIfChallengeErrors(authz: AcmeAuthorization): void {
   }
 }
 
+/**
+ * Candidate challenge types for an authorization under declarative preferences
+ */
+function preferredChallengeTypes(
+  authorization: AcmeAuthorization,
+  preferences: ChallengePreferences,
+  handlerTypes: AcmeChallengeType[],
+): AcmeChallengeType[] {
+  const { value } = authorization.identifier;
+  const key = authorization.wildcard ? `*.${value}` : value;
+  return (
+    preferences.identifiers?.[key] ??
+    (authorization.wildcard ? preferences.wildcard : undefined) ??
+    preferences.default ??
+    handlerTypes
+  );
+}
+
+/**
+ * Throw for authorizations that can no longer become valid
+ */
+function throwIfAuthorizationFinal(authorization: AcmeAuthorization): void {
+  const domain = authorization.identifier.value;
+  switch (authorization.status) {
+    case AUTHORIZATION_STATUS.INVALID:
+      throw AuthorizationError.invalid(domain);
+    case AUTHORIZATION_STATUS.DEACTIVATED:
+      throw AuthorizationError.deactivated(domain);
+    case AUTHORIZATION_STATUS.EXPIRED:
+      throw AuthorizationError.expired(domain);
+    case AUTHORIZATION_STATUS.REVOKED:
+      throw AuthorizationError.revoked(domain);
+  }
+}
+
 /**
  * ACME Challenge Solver
  *
@@ -65,9 +242,10 @@ export class AcmeChallengeSolver {
   /**
    * Pluggable authorization resolver. Defaults to direct signedPost.
    * The facade sets this to a late-bound reference so subclass overrides
-   * of getAuthorization are respected in the internal solve loop.
+   * of getAuthorization are respected in the internal solve loop and while
+   * polling; `retryAfterMs`, when returned, sets the next poll interval.
    */
-  public resolveAuthorization: (authzUrl: string) => Promise<AcmeAuthorization>;
+  public resolveAuthorization: (authzUrl: string) => Promise<AcmeAuthorizationResult>;
 
   constructor(
     private readonly signer: AcmeRequestSigner,
@@ -82,18 +260,22 @@ export class AcmeChallengeSolver {
    * @param authzUrl - URL of the authorization resource
    * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.5
    */
-  public async getAuthorization(authzUrl: string): Promise<AcmeAuthorization> {
+  public async getAuthorization(authzUrl: string): Promise<AcmeAuthorizationResult> {
     return this.resolveAuthorization(authzUrl);
   }
 
-  private async defaultGetAuthorization(authzUrl: string): Promise<AcmeAuthorization> {
+  private async defaultGetAuthorization(authzUrl: string): Promise<AcmeAuthorizationResult> {
     const response = await this.signer.signedPost(authzUrl, null);
 
     if (response.statusCode !== 200) {
       throw createErrorFromProblem(response.body);
     }
 
-    return response.body as AcmeAuthorization;
+    const retryAfterMs = getRetryAfterMs(response.headers as Record<string, string | string[]>);
+    return {
+      ...(response.body as AcmeAuthorization),
+      ...(retryAfterMs !== null && { retryAfterMs }),
+    };
   }
 
   /**
@@ -134,6 +316,8 @@ export class AcmeChallengeSolver {
    * @param order - Order object containing authorizations to validate
    * @param opts.setDns - Callback to provision DNS TXT records
    * @param opts.waitFor - Callback to wait for DNS propagation
+   * @param opts.removeDns - Callback to delete the TXT record once the authorization is final
+   * @param opts.concurrency - Authorizations solved in parallel (default: 1)
    * @see https://datatracker.ietf.org/doc/html/rfc8555#section-8.4
    */
   public async solveDns01(
@@ -141,23 +325,21 @@ export class AcmeChallengeSolver {
     opts: {
       waitFor: (preparation: ChallengePreparation) => Promise<void>;
       setDns: (preparation: ChallengePreparation) => Promise<void>;
-    },
+      removeDns?: (preparation: ChallengePreparation) => Promise<void>;
+      onCleanupError?: (error: Error, preparation: ChallengePreparation) => void;
+    } & SolveConcurrencyOptions,
   ): Promise<AcmeOrder> {
-    return this.solveChallenge(order, {
-      challengeType: CHALLENGE_TYPE.DNS_01,
-      prepareChallenge: async (
-        authorization: AcmeAuthorization,
-        keyAuth: string,
-        _challenge: AcmeChallenge,
-      ) => {
-        const { createHash } = await import('crypto');
-        const txtValue = createHash('sha256').update(keyAuth).digest('base64url');
-        const fqdn = `_acme-challenge.${authorization.identifier.value}`;
-        return { target: fqdn, value: txtValue };
-      },
-      setChallenge: opts.setDns,
-      waitFor: opts.waitFor,
-    });
+    return this.solveChallenge(
+      order,
+      async () => ({
+        challengeType: CHALLENGE_TYPE.DNS_01,
+        setChallenge: opts.setDns,
+        waitFor: opts.waitFor,
+        ...(opts.removeDns && { cleanup: opts.removeDns }),
+        ...(opts.onCleanupError && { onCleanupError: opts.onCleanupError }),
+      }),
+      opts,
+    );
   }
 
   /**
@@ -166,6 +348,10 @@ export class AcmeChallengeSolver {
    * @param order - Order object containing authorizations to validate
    * @param opts.setHttp - Callback to provision HTTP challenge files
    * @param opts.waitFor - Callback to wait for HTTP server setup
+   * @param opts.removeHttp - Callback to delete the challenge file once the authorization is final
+   * @param opts.selfCheck - Fetch the challenge URL before accepting the challenge (default: false)
+   * @param opts.concurrency - Authorizations solved in parallel (default: 1)
+   * @throws {ChallengeError} When the self-check never sees the key authorization
    * @see https://datatracker.ietf.org/doc/html/rfc8555#section-8.3
    */
   public async solveHttp01(
@@ -173,89 +359,471 @@ export class AcmeChallengeSolver {
     opts: {
       waitFor: (preparation: ChallengePreparation) => Promise<void>;
       setHttp: (preparation: ChallengePreparation) => Promise<void>;
-    },
+      removeHttp?: (preparation: ChallengePreparation) => Promise<void>;
+      onCleanupError?: (error: Error, preparation: ChallengePreparation) => void;
+      selfCheck?: boolean | HttpSelfCheckOptions;
+    } & SolveConcurrencyOptions,
   ): Promise<AcmeOrder> {
-    return this.solveChallenge(order, {
-      challengeType: CHALLENGE_TYPE.HTTP_01,
-      prepareChallenge: async (
-        authorization: AcmeAuthorization,
-        keyAuth: string,
-        challenge: AcmeChallenge,
-      ) => {
-        const url = `http://${authorization.identifier.value}/.well-known/acme-challenge/${challenge.token}`;
-        return { target: url, value: keyAuth, additional: { token: challenge.token } };
-      },
-      setChallenge: opts.setHttp,
-      waitFor: opts.waitFor,
-    });
+    return this.solveChallenge(
+      order,
+      async () => ({
+        challengeType: CHALLENGE_TYPE.HTTP_01,
+        setChallenge: opts.setHttp,
+        waitFor: opts.waitFor,
+        ...(opts.removeHttp && { cleanup: opts.removeHttp }),
+        ...(opts.onCleanupError && { onCleanupError: opts.onCleanupError }),
+        ...(opts.selfCheck && { selfCheck: opts.selfCheck }),
+      }),
+      opts,
+    );
   }
 
   /**
-   * Generic challenge solving flow
+   * Solve TLS-ALPN-01 challenge for all authorizations in an order
+   *
+   * The preparation target is the SNI server name the validator will send
+   * (the reverse-DNS name for IP identifiers); `additional` carries the
+   * self-signed validation `certificate` and its `privateKey` as PEM.
+   *
+   * @param order - Order object containing authorizations to validate
+   * @param opts.setTlsAlpn - Callback to serve the validation certificate on acme-tls/1
+   * @param opts.waitFor - Callback to wait for the TLS endpoint to be ready
+   * @param opts.removeTlsAlpn - Callback to stop serving the certificate once the authorization is final
+   * @param opts.concurrency - Authorizations solved in parallel (default: 1)
+   * @see https://datatracker.ietf.org/doc/html/rfc8737#section-3
    */
-  private async solveChallenge(
+  public async solveTlsAlpn01(
     order: AcmeOrder,
     opts: {
-      challengeType: AcmeChallengeType;
-      prepareChallenge: (
-        authorization: AcmeAuthorization,
-        keyAuth: string,
-        challenge: AcmeChallenge,
-      ) => Promise<ChallengePreparation>;
-      setChallenge: (preparation: ChallengePreparation) => Promise<void>;
       waitFor: (preparation: ChallengePreparation) => Promise<void>;
-    },
+      setTlsAlpn: (preparation: ChallengePreparation) => Promise<void>;
+      removeTlsAlpn?: (preparation: ChallengePreparation) => Promise<void>;
+      onCleanupError?: (error: Error, preparation: ChallengePreparation) => void;
+    } & SolveConcurrencyOptions,
   ): Promise<AcmeOrder> {
-    for (const authzUrl of order.authorizations || []) {
-      const authorization = await this.resolveAuthorization(authzUrl);
+    return this.solveChallenge(
+      order,
+      async () => ({
+        challengeType: CHALLENGE_TYPE.TLS_ALPN_01,
+        setChallenge: opts.setTlsAlpn,
+        waitFor: opts.waitFor,
+        ...(opts.removeTlsAlpn && { cleanup: opts.removeTlsAlpn }),
+        ...(opts.onCleanupError && { onCleanupError: opts.onCleanupError }),
+      }),
+      opts,
+    );
+  }
 
-      throwIfChallengeErrors(authorization);
+  /**
+   * Solve all authorizations in an order, choosing the challenge type per identifier
+   *
+   * Each authorization is routed through `strategy` to one of the registered
+   * `handlers`, so a mixed order can use dns-01 for wildcards and http-01 for
+   * the remaining names.
+   *
+   * @param order - Order object containing authorizations to validate
+   * @param opts - Handlers per challenge type, selection strategy and polling limits
+   * @throws {ChallengeError} When no offered challenge has a registered handler
+   */
+  public async solve(order: AcmeOrder, opts: SolveOptions): Promise<AcmeOrder> {
+    return this.solveChallenge(order, this.createStrategySelector(opts), opts);
+  }
+
+  /**
+   * Create an authorization ahead of any order (pre-authorization)
+   *
+   * Wildcard names cannot be pre-authorized (RFC 8555 Section 7.4.1), so
+   * they are rejected before anything is sent.
+   *
+   * @param identifier - Domain name or IP address to pre-authorize
+   * @returns Authorization with its URL taken from the Location header
+   * @throws {AuthorizationError} For wildcard identifiers or when the CA does not advertise newAuthz
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.4.1
+   */
+  public async preAuthorize(identifier: string): Promise<AcmeAuthorization> {
+    if (identifier.startsWith('*.')) {
+      throw AuthorizationError.wildcardPreAuthorization(identifier);
+    }
+    const directory = await this.signer.getDirectory();
+    if (!directory.newAuthz) {
+      throw AuthorizationError.preAuthorizationUnsupported();
+    }
+
+    const response = await this.signer.signedPost(directory.newAuthz, {
+      identifier: toAcmeIdentifier(identifier),
+    });
+
+    if (response.statusCode !== 201 && response.statusCode !== 200) {
+      throw createErrorFromProblem(response.body);
+    }
+
+    const location = response.headers.location;
+    const url = Array.isArray(location) ? location[0] : location;
+    if (!url) {
+      throw AuthorizationError.noAuthorizationUrl();
+    }
+
+    return { ...(response.body as AcmeAuthorization), url };
+  }
+
+  /**
+   * Satisfy a single authorization, independent of any order
+   *
+   * Provisions and triggers the requested challenge, then polls the
+   * authorization until it becomes valid.
+   *
+   * @param authzUrl - URL of the authorization (e.g. from preAuthorize)
+   * @param opts - Challenge type plus provisioning and wait callbacks
+   * @returns The valid authorization
+   */
+  public async solveAuthorization(
+    authzUrl: string,
+    opts: SolveAuthorizationOptions,
+  ): Promise<AcmeAuthorization> {
+    const authorization = await this.processAuthorization(authzUrl, async () => opts);
+    if (authorization.status === AUTHORIZATION_STATUS.VALID) {
+      return authorization;
+    }
+    return this.waitAuthorization(authzUrl, opts.poll);
+  }
+
+  /**
+   * Wait for an authorization to become valid
+   *
+   * Use after triggering a challenge that is still `processing`. Polls at the
+   * server's Retry-After interval when present, clamped to the configured
+   * floor and ceiling, until the authorization is valid or `maxWaitMs` passes.
+   *
+   * @param authzUrl - URL of the authorization to monitor
+   * @param options - Total wait limit and poll interval floor/ceiling
+   * @throws {AuthorizationError} When the authorization reaches a final non-valid status or times out
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.5.1
+   */
+  public async waitAuthorization(
+    authzUrl: string,
+    options: PollOptions = {},
+  ): Promise<AcmeAuthorization> {
+    const poll = resolvePollOptions(options);
+    const deadline = Date.now() + poll.maxWaitMs;
+    let attempts = 0;
+
+    for (;;) {
+      const authorization = await this.resolveAuthorization(authzUrl);
+      attempts++;
 
       if (authorization.status === AUTHORIZATION_STATUS.VALID) {
-        continue;
-      }
-      if (authorization.status === AUTHORIZATION_STATUS.INVALID) {
-        throw AuthorizationError.invalid(authorization.identifier.value);
-      }
-      if (authorization.status === AUTHORIZATION_STATUS.DEACTIVATED) {
-        throw AuthorizationError.deactivated(authorization.identifier.value);
-      }
-      if (authorization.status === AUTHORIZATION_STATUS.EXPIRED) {
-        throw AuthorizationError.expired(authorization.identifier.value);
-      }
-      if (authorization.status === AUTHORIZATION_STATUS.REVOKED) {
-        throw AuthorizationError.revoked(authorization.identifier.value);
+        return authorization;
       }
+      throwIfChallengeErrors(authorization);
+      throwIfAuthorizationFinal(authorization);
 
-      const challenge = authorization.challenges?.find((ch) => ch.type === opts.challengeType);
-      if (!challenge) {
-        throw ChallengeError.notFound(opts.challengeType, authorization.identifier.value);
+      const delay = calculatePollDelay(authorization.retryAfterMs ?? null, poll);
+      if (Date.now() + delay > deadline) {
+        throw AuthorizationError.timeout(
+          authorization.identifier.value,
+          authorization.status,
+          attempts,
+        );
       }
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Deactivate an authorization so it can no longer be used for issuance
+   *
+   * @param authzUrl - URL of a pending or valid authorization
+   * @returns The deactivated authorization
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.5.2
+   */
+  public async deactivateAuthorization(authzUrl: string): Promise<AcmeAuthorization> {
+    const response = await this.signer.signedPost(authzUrl, {
+      status: AUTHORIZATION_STATUS.DEACTIVATED,
+    });
 
-      if (challenge.status === CHALLENGE_STATUS.VALID) {
+    if (response.statusCode !== 200) {
+      throw createErrorFromProblem(response.body);
+    }
+
+    const authorization = response.body as AcmeAuthorization;
+    if (authorization.status !== AUTHORIZATION_STATUS.DEACTIVATED) {
+      throw AuthorizationError.deactivationFailed(
+        authorization.identifier.value,
+        authorization.status,
+      );
+    }
+
+    return authorization;
+  }
+
+  /**
+   * Deactivate every pending or valid authorization of an order
+   *
+   * Authorizations already in a final state (deactivated, invalid, expired,
+   * revoked) are left untouched.
+   *
+   * @param order - Order whose authorizations should be dropped
+   * @returns The deactivated authorizations
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.5.2
+   */
+  public async deactivateOrderAuthorizations(order: AcmeOrder): Promise<AcmeAuthorization[]> {
+    const deactivated: AcmeAuthorization[] = [];
+
+    for (const authzUrl of order.authorizations || []) {
+      const authorization = await this.resolveAuthorization(authzUrl);
+      if (
+        authorization.status !== AUTHORIZATION_STATUS.PENDING &&
+        authorization.status !== AUTHORIZATION_STATUS.VALID
+      ) {
         continue;
       }
-      if (challenge.status === CHALLENGE_STATUS.INVALID) {
-        throw ChallengeError.invalid(opts.challengeType, authorization.identifier.value);
-      }
-      if (challenge.status === CHALLENGE_STATUS.PROCESSING) {
-        continue;
+      deactivated.push(await this.deactivateAuthorization(authzUrl));
+    }
+
+    return deactivated;
+  }
+
+  /**
+   * Generic challenge solving flow
+   */
+  private async solveChallenge(
+    order: AcmeOrder,
+    select: ChallengeSelector,
+    options: SolveConcurrencyOptions & { poll?: PollOptions } = {},
+  ): Promise<AcmeOrder> {
+    const authzUrls = order.authorizations || [];
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+
+    if (concurrency === 1) {
+      for (const authzUrl of authzUrls) {
+        await this.processAuthorization(authzUrl, select);
       }
+    } else {
+      await this.processAuthorizationsConcurrently(
+        authzUrls,
+        select,
+        concurrency,
+        options.ordered ?? false,
+      );
+    }
+
+    return await this.orderManager.waitOrder(
+      order,
+      [ORDER_STATUS.READY, ORDER_STATUS.VALID],
+      options.poll,
+    );
+  }
 
-      // RFC 8555 Section 8.1: token must be base64url characters only
-      if (!/^[A-Za-z0-9_-]+$/.test(challenge.token)) {
-        throw ChallengeError.invalidToken(challenge.token);
+  /**
+   * Run processAuthorization over a worker pool, collecting every failure
+   *
+   * With `ordered`, each set callback waits for the previous authorization's
+   * set callback (or its early exit) before running.
+   */
+  private async processAuthorizationsConcurrently(
+    authzUrls: string[],
+    select: ChallengeSelector,
+    concurrency: number,
+    ordered: boolean,
+  ): Promise<void> {
+    const failures: (AuthorizationFailure | undefined)[] = [];
+    let previousSet: Promise<void> = Promise.resolve();
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < authzUrls.length) {
+        const index = next++;
+        const authzUrl = authzUrls[index] as string;
+        const waitForTurn = previousSet;
+        let releaseTurn!: () => void;
+        previousSet = new Promise((resolve) => (releaseTurn = resolve));
+
+        const selectInTurn: ChallengeSelector = async (authorization) => {
+          const opts = await select(authorization);
+          if (!ordered) return opts;
+          return {
+            ...opts,
+            setChallenge: async (preparation) => {
+              try {
+                await waitForTurn;
+                await opts.setChallenge(preparation);
+              } finally {
+                releaseTurn();
+              }
+            },
+          };
+        };
+
+        let identifier = authzUrl;
+        try {
+          const authorization = await this.resolveAuthorization(authzUrl);
+          const { value } = authorization.identifier;
+          identifier = authorization.wildcard ? `*.${value}` : value;
+          await this.provisionAuthorization(authzUrl, authorization, selectInTurn);
+        } catch (error) {
+          debugChallenge('authorization %s failed: %s', identifier, (error as Error).message);
+          failures[index] = { identifier, authzUrl, error: error as Error };
+        } finally {
+          releaseTurn();
+        }
       }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, authzUrls.length) }, () => worker()),
+    );
+
+    const failed = failures.filter((f): f is AuthorizationFailure => f !== undefined);
+    if (failed.length > 0) {
+      throw AuthorizationError.aggregate(failed, authzUrls.length);
+    }
+  }
+
+  /**
+   * Provision and trigger the challenge for one authorization, if still needed
+   */
+  private async processAuthorization(
+    authzUrl: string,
+    select: ChallengeSelector,
+  ): Promise<AcmeAuthorization> {
+    return this.provisionAuthorization(authzUrl, await this.resolveAuthorization(authzUrl), select);
+  }
+
+  /**
+   * Provision and trigger the challenge for a fetched authorization
+   */
+  private async provisionAuthorization(
+    authzUrl: string,
+    authorization: AcmeAuthorization,
+    select: ChallengeSelector,
+  ): Promise<AcmeAuthorization> {
+    throwIfChallengeErrors(authorization);
+
+    if (authorization.status === AUTHORIZATION_STATUS.VALID) {
+      return authorization;
+    }
+    throwIfAuthorizationFinal(authorization);
+
+    const opts = await select(authorization);
+
+    const challenge = authorization.challenges?.find((ch) => ch.type === opts.challengeType);
+    if (!challenge) {
+      throw ChallengeError.notFound(opts.challengeType, authorization.identifier.value);
+    }
+
+    if (challenge.status === CHALLENGE_STATUS.VALID) {
+      return authorization;
+    }
+    if (challenge.status === CHALLENGE_STATUS.INVALID) {
+      throw ChallengeError.invalid(opts.challengeType, authorization.identifier.value);
+    }
+    if (challenge.status === CHALLENGE_STATUS.PROCESSING) {
+      return authorization;
+    }
+
+    // RFC 8555 Section 8.1: token must be base64url characters only
+    if (!/^[A-Za-z0-9_-]+$/.test(challenge.token)) {
+      throw ChallengeError.invalidToken(challenge.token);
+    }
 
-      const keyAuth = await this.signer.keyAuthorization(challenge.token);
-      const preparation = await opts.prepareChallenge(authorization, keyAuth, challenge);
+    const keyAuth = await this.signer.keyAuthorization(challenge.token);
+    const preparation = await CHALLENGE_PREPARERS[opts.challengeType](
+      authorization,
+      keyAuth,
+      challenge,
+    );
 
+    let failure: { error: unknown } | undefined;
+    try {
       await opts.setChallenge(preparation);
       await opts.waitFor(preparation);
+      if (opts.selfCheck && opts.challengeType === CHALLENGE_TYPE.HTTP_01) {
+        await selfCheckHttp01(preparation.target, preparation.value, {
+          ...(opts.selfCheck !== true && opts.selfCheck),
+          identifier: authorization.identifier.value,
+        });
+      }
       await this.completeChallenge(challenge);
+      if (opts.cleanup) {
+        // Keep the response in place until the CA has finished validating
+        return await this.waitAuthorization(authzUrl, opts.poll);
+      }
+      return authorization;
+    } catch (error) {
+      failure = { error };
+      throw error;
+    } finally {
+      if (opts.cleanup) {
+        await this.runCleanup(opts, preparation, authorization.identifier.value, failure);
+      }
+    }
+  }
+
+  /**
+   * Remove a challenge response without masking the authorization outcome
+   *
+   * A cleanup failure never fails the authorization: without onCleanupError
+   * it is attached to the primary error as `cleanupErrors`, or emitted as a
+   * process warning when there is none.
+   */
+  private async runCleanup(
+    opts: SolveAuthorizationOptions,
+    preparation: ChallengePreparation,
+    domain: string,
+    failure: { error: unknown } | undefined,
+  ): Promise<void> {
+    try {
+      await opts.cleanup?.(preparation);
+    } catch (error) {
+      debugChallenge('cleanup of %s for %s failed: %s', opts.challengeType, domain, error);
+      if (opts.onCleanupError) {
+        opts.onCleanupError(error as Error, preparation);
+        return;
+      }
+      const cleanupError = ChallengeError.cleanupFailed(opts.challengeType, domain, error as Error);
+      if (failure?.error instanceof Error) {
+        const primary: Error & { cleanupErrors?: Error[] } = failure.error;
+        primary.cleanupErrors = [...(primary.cleanupErrors ?? []), cleanupError];
+      } else {
+        process.emitWarning(cleanupError);
+      }
     }
+  }
+
+  /**
+   * Build a selector that applies a challenge strategy to registered handlers
+   */
+  private createStrategySelector(opts: SolveOptions): ChallengeSelector {
+    const handlerTypes = (Object.keys(opts.handlers) as AcmeChallengeType[]).filter(
+      (type) => opts.handlers[type],
+    );
+
+    return async (authorization) => {
+      const domain = authorization.identifier.value;
+      const offered = (authorization.challenges ?? []).map((ch) => ch.type);
+      const strategy = opts.strategy ?? {};
+
+      let challengeType: AcmeChallengeType | undefined;
+      if (typeof strategy === 'function') {
+        challengeType = await strategy(authorization);
+      } else {
+        challengeType = preferredChallengeTypes(authorization, strategy, handlerTypes).find(
+          (type) => offered.includes(type) && opts.handlers[type],
+        );
+      }
+      challengeType ??= handlerTypes.find((type) => offered.includes(type));
+
+      if (!challengeType) {
+        throw ChallengeError.noUsableChallenge(domain, offered);
+      }
+      const handler = opts.handlers[challengeType];
+      if (!handler) {
+        throw ChallengeError.noHandler(challengeType, domain);
+      }
 
-    return await this.orderManager.waitOrder(order, [ORDER_STATUS.READY, ORDER_STATUS.VALID]);
+      debugChallenge('strategy selected %s for %s', challengeType, domain);
+      return { challengeType, ...handler, ...(opts.poll && { poll: opts.poll }) };
+    };
   }
 
   /**
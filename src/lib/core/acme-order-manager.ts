@@ -7,12 +7,252 @@
  * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.4
  */
 
-import { ORDER_POLL_MAX_ATTEMPTS, ORDER_POLL_INTERVAL_MS } from '../constants/defaults.js';
-import type { AcmeOrder, AcmeOrderStatus } from '../types/order.js';
+import type { AcmeAutoRenewal, AcmeOrder, AcmeOrderStatus, AcmeProblem } from '../types/order.js';
+import type { AcmeAutoRenewalMeta } from '../types/directory.js';
 import { createErrorFromProblem } from '../errors/factory.js';
 import { OrderError } from '../errors/acme-operation-errors.js';
+import { ACME_ERROR } from '../errors/codes.js';
+import { ORDER_STATUS } from '../types/status.js';
+import { toAcmeIdentifier } from '../utils/identifier.js';
+import { getChainTopIssuer } from '../crypto/certificate.js';
+import {
+  calculatePollDelay,
+  getRetryAfterMs,
+  resolvePollOptions,
+  sleep,
+  type PollOptions,
+} from '../transport/retry.js';
 import type { AcmeRequestSigner } from './acme-request-signer.js';
 
+/**
+ * Optional fields for newOrder requests
+ */
+export interface CreateOrderOptions {
+  /**
+   * ARI certificate identifier of the certificate being renewed
+   *
+   * @see https://datatracker.ietf.org/doc/html/rfc9773#section-5
+   */
+  replaces?: string;
+  /**
+   * Certificate profile name; must be one of the directory's `meta.profiles`
+   *
+   * @see https://datatracker.ietf.org/doc/draft-ietf-acme-profiles/
+   */
+  profile?: string;
+  /**
+   * Requested certificate notBefore (RFC 3339 string or Date); must be in the future
+   *
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.4
+   */
+  notBefore?: string | Date;
+  /**
+   * Requested certificate notAfter (RFC 3339 string or Date); must be later than notBefore
+   *
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.4
+   */
+  notAfter?: string | Date;
+  /**
+   * STAR auto-renewal request; requires `auto-renewal` in the directory meta
+   * and cannot be combined with notBefore/notAfter
+   *
+   * @see https://datatracker.ietf.org/doc/html/rfc8739#section-3.1.1
+   */
+  autoRenewal?: AutoRenewalOptions;
+}
+
+/**
+ * STAR auto-renewal parameters for newOrder (dates as RFC 3339 strings or Date objects)
+ */
+export interface AutoRenewalOptions {
+  /** Earliest notBefore of the certificate series (default: now) */
+  'start-date'?: string | Date;
+  /** Latest notAfter of the certificate series */
+  'end-date': string | Date;
+  /** Validity of each certificate in seconds */
+  lifetime: number;
+  /** Seconds to pre-date each certificate's notBefore */
+  'lifetime-adjust'?: number;
+  /** Allow unauthenticated GET on the star-certificate URL */
+  'allow-certificate-get'?: boolean;
+}
+
+/**
+ * Options for certificate download
+ */
+export interface DownloadCertificateOptions {
+  /**
+   * Issuer common name of the preferred chain's topmost certificate
+   * (e.g. "ISRG Root X1"). Falls back to the default chain when no offered
+   * chain matches.
+   */
+  preferredChain?: string;
+}
+
+/**
+ * A certificate chain offered by the server
+ */
+export interface AcmeCertificateChain {
+  /** URL the chain was downloaded from */
+  url: string;
+  /** PEM-encoded chain, leaf first */
+  certificate: string;
+  /** Issuer CN of the topmost certificate in the chain */
+  topIssuer: string | undefined;
+}
+
+const RFC3339_DATE_TIME = /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Parse an RFC 3339 string or Date into its wire text and epoch time
+ */
+function parseDateTime(value: string | Date): { text: string; time: number } | undefined {
+  const time = value instanceof Date ? value.getTime() : Date.parse(value);
+  if (Number.isNaN(time) || (typeof value === 'string' && !RFC3339_DATE_TIME.test(value))) {
+    return undefined;
+  }
+  return { text: value instanceof Date ? value.toISOString() : value, time };
+}
+
+/**
+ * Normalize and validate the requested notBefore/notAfter window
+ *
+ * Date objects are serialized with toISOString(); strings must already be
+ * RFC 3339 date-times and are sent unchanged.
+ */
+function resolveValidityWindow(
+  options: CreateOrderOptions,
+  now = Date.now(),
+): { notBefore?: string; notAfter?: string } {
+  const window: { notBefore?: string; notAfter?: string } = {};
+  const times: { notBefore?: number; notAfter?: number } = {};
+
+  for (const field of ['notBefore', 'notAfter'] as const) {
+    const value = options[field];
+    if (value === undefined) continue;
+
+    const parsed = parseDateTime(value);
+    if (!parsed) {
+      throw OrderError.invalidValidityWindow(`${field} is not an RFC 3339 date-time`, {
+        [field]: String(value),
+      });
+    }
+
+    window[field] = parsed.text;
+    times[field] = parsed.time;
+    if (parsed.time <= now) {
+      throw OrderError.invalidValidityWindow(`${field} must be in the future`, window);
+    }
+  }
+
+  if (
+    times.notBefore !== undefined &&
+    times.notAfter !== undefined &&
+    times.notAfter <= times.notBefore
+  ) {
+    throw OrderError.invalidValidityWindow('notAfter must be later than notBefore', window);
+  }
+
+  return window;
+}
+
+/**
+ * Validate a STAR auto-renewal request against the directory's advertised limits
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8739#section-3.1.1
+ */
+function resolveAutoRenewal(
+  request: AutoRenewalOptions,
+  meta: AcmeAutoRenewalMeta | undefined,
+  now = Date.now(),
+): AcmeAutoRenewal {
+  if (!meta) {
+    throw OrderError.autoRenewalUnsupported();
+  }
+
+  const end = parseDateTime(request['end-date']);
+  if (!end) {
+    throw OrderError.invalidAutoRenewal('end-date is not an RFC 3339 date-time');
+  }
+  if (end.time <= now) {
+    throw OrderError.invalidAutoRenewal('end-date must be in the future');
+  }
+
+  const start =
+    request['start-date'] !== undefined ? parseDateTime(request['start-date']) : undefined;
+  if (request['start-date'] !== undefined && !start) {
+    throw OrderError.invalidAutoRenewal('start-date is not an RFC 3339 date-time');
+  }
+  if (start && end.time <= start.time) {
+    throw OrderError.invalidAutoRenewal('end-date must be later than start-date');
+  }
+
+  if (!Number.isInteger(request.lifetime) || request.lifetime <= 0) {
+    throw OrderError.invalidAutoRenewal('lifetime must be a positive number of seconds');
+  }
+  if (meta['min-lifetime'] !== undefined && request.lifetime < meta['min-lifetime']) {
+    throw OrderError.invalidAutoRenewal(
+      `lifetime ${request.lifetime}s is below the server minimum of ${meta['min-lifetime']}s`,
+    );
+  }
+
+  const durationSeconds = (end.time - (start?.time ?? now)) / 1000;
+  if (meta['max-duration'] !== undefined && durationSeconds > meta['max-duration']) {
+    throw OrderError.invalidAutoRenewal(
+      `series duration exceeds the server maximum of ${meta['max-duration']}s`,
+    );
+  }
+
+  const adjust = request['lifetime-adjust'];
+  if (adjust !== undefined && (!Number.isInteger(adjust) || adjust < 0)) {
+    throw OrderError.invalidAutoRenewal('lifetime-adjust must be a non-negative number of seconds');
+  }
+  if (request['allow-certificate-get'] && !meta['allow-certificate-get']) {
+    throw OrderError.invalidAutoRenewal('server does not allow certificate GET');
+  }
+
+  return {
+    ...(start && { 'start-date': start.text }),
+    'end-date': end.text,
+    lifetime: request.lifetime,
+    ...(adjust !== undefined && { 'lifetime-adjust': adjust }),
+    ...(request['allow-certificate-get'] !== undefined && {
+      'allow-certificate-get': request['allow-certificate-get'],
+    }),
+  };
+}
+
+/**
+ * Type an order response body, exposing the STAR certificate URL as `starCertificate`
+ */
+function toAcmeOrder(body: unknown): AcmeOrder {
+  const order = body as AcmeOrder & { 'star-certificate'?: string };
+  if (order['star-certificate'] !== undefined) {
+    order.starCertificate = order['star-certificate'];
+  }
+  return order;
+}
+
+/**
+ * Extract rel="alternate" URLs from Link header(s)
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8288#section-3
+ */
+function parseAlternateLinks(link: string | string[] | undefined): string[] {
+  const values = Array.isArray(link) ? link : link ? [link] : [];
+  const urls: string[] = [];
+
+  for (const entry of values.flatMap((value) => value.split(/,\s*(?=<)/))) {
+    const match = /^\s*<([^>]+)>(.*)$/.exec(entry);
+    const rel = match?.[2] ? /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2])?.[1] : undefined;
+    if (match?.[1] && rel?.split(/\s+/).includes('alternate')) {
+      urls.push(match[1]);
+    }
+  }
+
+  return urls;
+}
+
 /**
  * ACME Order Manager
  *
@@ -24,26 +264,57 @@ export class AcmeOrderManager {
   /**
    * Create new certificate order
    *
-   * @param identifiers - Array of domain names for the certificate
+   * @param identifiers - Domain names and/or IP addresses (IP literals become `ip` identifiers)
+   * @param options - Optional order fields (ARI `replaces`, certificate `profile`,
+   *   validity window, STAR `autoRenewal`)
+   * @throws {OrderError} When the requested profile or auto-renewal is not supported by the
+   *   directory, the validity window is invalid, or the server rejects it as malformed
    * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.4
    */
-  public async createOrder(identifiers: string[]): Promise<AcmeOrder> {
+  public async createOrder(
+    identifiers: string[],
+    options: CreateOrderOptions = {},
+  ): Promise<AcmeOrder> {
     const directory = await this.signer.getDirectory();
 
-    const payload = {
-      identifiers: identifiers.map((domain) => ({
-        type: 'dns',
-        value: domain,
-      })),
+    const payload: Record<string, unknown> = {
+      identifiers: identifiers.map(toAcmeIdentifier),
     };
+    if (options.replaces !== undefined) {
+      payload.replaces = options.replaces;
+    }
+    if (options.profile !== undefined) {
+      const available = Object.keys(directory.meta?.profiles ?? {});
+      if (!available.includes(options.profile)) {
+        throw OrderError.unsupportedProfile(options.profile, available);
+      }
+      payload.profile = options.profile;
+    }
+    const window = resolveValidityWindow(options);
+    Object.assign(payload, window);
+    if (options.autoRenewal !== undefined) {
+      if (Object.keys(window).length > 0) {
+        throw OrderError.invalidAutoRenewal(
+          'notBefore/notAfter cannot be combined with auto-renewal',
+        );
+      }
+      payload['auto-renewal'] = resolveAutoRenewal(
+        options.autoRenewal,
+        directory.meta?.['auto-renewal'],
+      );
+    }
 
     const response = await this.signer.signedPost(directory.newOrder, payload);
 
     if (response.statusCode !== 201) {
+      const problem = response.body as AcmeProblem | undefined;
+      if (problem?.type === ACME_ERROR.malformed && Object.keys(window).length > 0) {
+        throw OrderError.validityWindowRejected(problem.detail, window);
+      }
       throw createErrorFromProblem(response.body);
     }
 
-    const order = response.body as AcmeOrder;
+    const order = toAcmeOrder(response.body);
     const locationHeader = response.headers.location as string;
     if (locationHeader) {
       try {
@@ -79,7 +350,7 @@ export class AcmeOrderManager {
       throw createErrorFromProblem(response.body);
     }
 
-    const finalizedOrder = response.body as AcmeOrder;
+    const finalizedOrder = toAcmeOrder(response.body);
     if (order.url) {
       finalizedOrder.url = order.url;
     }
@@ -89,51 +360,145 @@ export class AcmeOrderManager {
   /**
    * Wait for order to reach target status(es)
    *
+   * Polls at the server's Retry-After interval when present, clamped to the
+   * configured floor and ceiling, until the target status or `maxWaitMs`.
+   *
    * @param order - Order object to monitor (must have URL)
    * @param targetStatuses - Array of acceptable final statuses to wait for
+   * @param options - Total wait limit and poll interval floor/ceiling
    * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.1.6
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.4
    */
-  public async waitOrder(order: AcmeOrder, targetStatuses: AcmeOrderStatus[]): Promise<AcmeOrder> {
+  public async waitOrder(
+    order: AcmeOrder,
+    targetStatuses: AcmeOrderStatus[],
+    options: PollOptions = {},
+  ): Promise<AcmeOrder> {
+    const poll = resolvePollOptions(options);
+    const deadline = Date.now() + poll.maxWaitMs;
     let currentOrder = order;
+    let retryAfterMs: number | null = null;
     let attempts = 0;
-    const maxAttempts = ORDER_POLL_MAX_ATTEMPTS;
 
-    while (!targetStatuses.includes(currentOrder.status) && attempts < maxAttempts) {
-      await new Promise((resolve) => setTimeout(resolve, ORDER_POLL_INTERVAL_MS));
+    while (!targetStatuses.includes(currentOrder.status)) {
+      const delay = calculatePollDelay(retryAfterMs, poll);
+      if (Date.now() + delay > deadline) {
+        throw OrderError.timeout(targetStatuses, currentOrder.status, attempts);
+      }
+      await sleep(delay);
 
-      const response = await this.signer.signedPost(currentOrder.url || '', null);
+      const response = await this.signer.signedPost(order.url || '', null);
       if (response.statusCode !== 200) {
         throw createErrorFromProblem(response.body);
       }
 
-      currentOrder = response.body as AcmeOrder;
+      currentOrder = { ...toAcmeOrder(response.body), ...(order.url && { url: order.url }) };
+      retryAfterMs = getRetryAfterMs(response.headers as Record<string, string | string[]>);
       attempts++;
     }
 
-    if (!targetStatuses.includes(currentOrder.status)) {
-      throw OrderError.timeout(targetStatuses, currentOrder.status, maxAttempts);
+    return currentOrder;
+  }
+
+  /**
+   * Cancel the automatic renewal of a STAR order
+   *
+   * @param order - STAR order with URL (status "valid")
+   * @returns The order with status "canceled"
+   * @see https://datatracker.ietf.org/doc/html/rfc8739#section-2.3
+   */
+  public async cancelAutoRenewal(order: AcmeOrder): Promise<AcmeOrder> {
+    if (!order.url) {
+      throw OrderError.noOrderUrl();
     }
 
-    return currentOrder;
+    const response = await this.signer.signedPost(order.url, { status: ORDER_STATUS.CANCELED });
+
+    if (response.statusCode !== 200) {
+      throw createErrorFromProblem(response.body);
+    }
+
+    return { ...toAcmeOrder(response.body), url: order.url };
   }
 
   /**
    * Download certificate from finalized order
    *
+   * With `preferredChain`, the default chain is returned if its topmost
+   * issuer matches; otherwise alternates are fetched until one matches.
+   *
+   * @param order - Finalized order with certificate URL (status must be "valid")
+   * @param options - Optional preferred chain selection
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.4.2
+   */
+  public async downloadCertificate(
+    order: AcmeOrder,
+    options: DownloadCertificateOptions = {},
+  ): Promise<string> {
+    if (!order.certificate) {
+      throw OrderError.noCertificateUrl();
+    }
+
+    const { certificate, alternates } = await this.fetchChain(order.certificate);
+    const { preferredChain } = options;
+
+    if (preferredChain === undefined || getChainTopIssuer(certificate) === preferredChain) {
+      return certificate;
+    }
+
+    for (const url of alternates) {
+      const alternate = await this.fetchChain(url);
+      if (getChainTopIssuer(alternate.certificate) === preferredChain) {
+        return alternate.certificate;
+      }
+    }
+
+    return certificate;
+  }
+
+  /**
+   * Download every chain the server offers for an order
+   *
+   * The default chain comes first, followed by each `Link: rel="alternate"` chain.
+   *
    * @param order - Finalized order with certificate URL (status must be "valid")
    * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.4.2
    */
-  public async downloadCertificate(order: AcmeOrder): Promise<string> {
+  public async listAlternateChains(order: AcmeOrder): Promise<AcmeCertificateChain[]> {
     if (!order.certificate) {
       throw OrderError.noCertificateUrl();
     }
 
-    const response = await this.signer.signedPost(order.certificate, null);
+    const primary = await this.fetchChain(order.certificate);
+    const chains: AcmeCertificateChain[] = [
+      {
+        url: order.certificate,
+        certificate: primary.certificate,
+        topIssuer: getChainTopIssuer(primary.certificate),
+      },
+    ];
+
+    for (const url of primary.alternates) {
+      const { certificate } = await this.fetchChain(url);
+      chains.push({ url, certificate, topIssuer: getChainTopIssuer(certificate) });
+    }
+
+    return chains;
+  }
+
+  /**
+   * POST-as-GET a certificate URL and collect its alternate links
+   */
+  private async fetchChain(url: string): Promise<{ certificate: string; alternates: string[] }> {
+    const response = await this.signer.signedPost(url, null);
 
     if (response.statusCode !== 200) {
       throw createErrorFromProblem(response.body);
     }
 
-    return response.body as string;
+    return {
+      certificate: response.body as string,
+      alternates: parseAlternateLinks(response.headers.link),
+    };
   }
 }
@@ -15,6 +15,7 @@ import type { AcmeClient } from './acme-client.js';
 import { NonceManager, type NonceManagerOptions } from '../managers/nonce-manager.js';
 import type { AcmeDirectory } from '../types/directory.js';
 import type { ParsedResponseData } from '../transport/http-client.js';
+import { AccountError } from '../errors/acme-operation-errors.js';
 
 /**
  * Keys bound to a single ACME account session
@@ -77,13 +78,16 @@ export async function detectJwsAlgorithm(publicKey: webcrypto.CryptoKey): Promis
  * with automatic nonce management, algorithm detection, and EAB support.
  */
 export class AcmeRequestSigner {
-  public readonly keys: AccountKeys;
   public kid: string;
 
+  private accountKeys: AccountKeys;
   private readonly client: AcmeClient;
   private nonce: NonceManager | null = null;
   private readonly nonceOptions: Partial<NonceManagerOptions>;
-  private jwsAlgorithm: string | null = null;
+  /** JWS algorithm of the public key it was detected from */
+  private jwsAlgorithm: { publicKey: webcrypto.CryptoKey; alg: string } | null = null;
+  private thumbprint: string | null = null;
+  private deactivated = false;
 
   constructor(
     client: AcmeClient,
@@ -91,7 +95,7 @@ export class AcmeRequestSigner {
     opts: { kid?: string; nonce?: Partial<NonceManagerOptions>; nonceManager?: NonceManager },
   ) {
     this.client = client;
-    this.keys = keys;
+    this.accountKeys = keys;
     this.kid = opts.kid || '';
     this.nonceOptions = opts.nonce || {};
     if (opts.nonceManager) {
@@ -99,10 +103,47 @@ export class AcmeRequestSigner {
     }
   }
 
+  /** Account key pair currently used for signing */
+  public get keys(): AccountKeys {
+    return this.accountKeys;
+  }
+
   public async getDirectory(): Promise<AcmeDirectory> {
     return this.client.getDirectory();
   }
 
+  /** Whether the account has been deactivated (all further signed requests are refused) */
+  public get isDeactivated(): boolean {
+    return this.deactivated;
+  }
+
+  /**
+   * Mark the account as deactivated
+   *
+   * Deactivation is permanent on the server side, so subsequent signed
+   * requests fail locally instead of being sent.
+   *
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.3.6
+   */
+  public markDeactivated(): void {
+    this.deactivated = true;
+  }
+
+  /**
+   * Replace the account key pair after a successful key rollover
+   *
+   * Resets the cached JWS algorithm and JWK thumbprint so that subsequent
+   * requests and key authorizations are derived from the new key. The kid
+   * is preserved because the account URL does not change on rollover.
+   *
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.3.5
+   */
+  public replaceKeys(keys: AccountKeys): void {
+    this.accountKeys = keys;
+    this.jwsAlgorithm = null;
+    this.thumbprint = null;
+  }
+
   /**
    * Create signed POST request to ACME server with automatic nonce retry
    *
@@ -117,9 +158,16 @@ export class AcmeRequestSigner {
     payload: string | Record<string, unknown> | Uint8Array | null | undefined,
     forceJwk = false,
   ): Promise<ParsedResponseData> {
+    if (this.deactivated) {
+      throw AccountError.deactivated(this.kid);
+    }
+
     const nonceManager = await this.ensureNonceManager();
     const namespace = new URL(this.client.directoryUrl).host;
-    const alg = await this.getAlgorithm();
+    // One key snapshot for every attempt, so a concurrent replaceKeys cannot
+    // pair the new key with the old algorithm
+    const keys = this.keys;
+    const alg = await this.getAlgorithm(keys);
 
     return nonceManager.withNonceRetry(namespace, async (nonce) => {
       const protectedHeader: Record<string, unknown> = {
@@ -129,7 +177,7 @@ export class AcmeRequestSigner {
       };
 
       if (forceJwk || !this.kid) {
-        protectedHeader.jwk = await jose.exportJWK(this.keys.publicKey);
+        protectedHeader.jwk = await jose.exportJWK(keys.publicKey);
       } else {
         protectedHeader.kid = this.kid;
       }
@@ -143,7 +191,7 @@ export class AcmeRequestSigner {
 
       const jws = await new jose.FlattenedSign(encodedPayload)
         .setProtectedHeader(protectedHeader)
-        .sign(this.keys.privateKey);
+        .sign(keys.privateKey);
 
       return this.client.getHttp().post(url, jws, {
         'Content-Type': 'application/jose+json',
@@ -151,6 +199,15 @@ export class AcmeRequestSigner {
     });
   }
 
+  /**
+   * Plain GET for resources that are not JWS-authenticated (e.g. renewalInfo)
+   *
+   * @see https://datatracker.ietf.org/doc/html/rfc9773#section-4.1
+   */
+  public async unsignedGet(url: string): Promise<ParsedResponseData> {
+    return this.client.getHttp().get(url);
+  }
+
   /**
    * Compute Key Authorization per RFC 8555 Section 8.1
    *
@@ -160,9 +217,41 @@ export class AcmeRequestSigner {
    * @see https://datatracker.ietf.org/doc/html/rfc7638
    */
   public async keyAuthorization(token: string): Promise<string> {
-    const jwk = await jose.exportJWK(this.keys.publicKey);
-    const thumbprint = await jose.calculateJwkThumbprint(jwk, 'sha256');
-    return `${token}.${thumbprint}`;
+    if (!this.thumbprint) {
+      const jwk = await jose.exportJWK(this.keys.publicKey);
+      this.thumbprint = await jose.calculateJwkThumbprint(jwk, 'sha256');
+    }
+    return `${token}.${this.thumbprint}`;
+  }
+
+  /**
+   * Create the inner JWS for an account key change request
+   *
+   * The inner JWS is signed with the new key, carries the new key in its
+   * `jwk` header and has no nonce. Its payload binds the account URL to the
+   * old key. The result is sent as the payload of an outer kid-signed JWS.
+   *
+   * @param newKeys - Key pair the account should roll over to
+   * @param url - keyChange URL from the directory (must match the outer JWS)
+   * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.3.5
+   */
+  public async createKeyChangeJws(newKeys: AccountKeys, url: string): Promise<jose.FlattenedJWS> {
+    const [newJwk, oldJwk, alg] = await Promise.all([
+      jose.exportJWK(newKeys.publicKey),
+      jose.exportJWK(this.keys.publicKey),
+      detectJwsAlgorithm(newKeys.publicKey),
+    ]);
+
+    const payload = new TextEncoder().encode(
+      JSON.stringify({
+        account: this.kid,
+        oldKey: oldJwk,
+      }),
+    );
+
+    return new jose.FlattenedSign(payload)
+      .setProtectedHeader({ alg, jwk: newJwk, url })
+      .sign(newKeys.privateKey);
   }
 
   /**
@@ -211,10 +300,12 @@ export class AcmeRequestSigner {
     return this.nonce;
   }
 
-  private async getAlgorithm(): Promise<string> {
-    if (!this.jwsAlgorithm) {
-      this.jwsAlgorithm = await detectJwsAlgorithm(this.keys.publicKey);
+  private async getAlgorithm(keys: AccountKeys): Promise<string> {
+    if (this.jwsAlgorithm?.publicKey !== keys.publicKey) {
+      const alg = await detectJwsAlgorithm(keys.publicKey);
+      this.jwsAlgorithm = { publicKey: keys.publicKey, alg };
+      return alg;
     }
-    return this.jwsAlgorithm;
+    return this.jwsAlgorithm.alg;
   }
 }
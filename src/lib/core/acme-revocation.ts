@@ -0,0 +1,108 @@
+/**
+ * RFC 8555 ACME Certificate Revocation
+ *
+ * Revocation requests shared by the account facade and the standalone
+ * certificate-key flow (JWS signed with the certificate's own key).
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.6
+ */
+
+import { createPrivateKey, webcrypto, type JsonWebKey } from 'crypto';
+import type { AcmeClient } from './acme-client.js';
+import { AcmeRequestSigner, type AccountKeys } from './acme-request-signer.js';
+import { createErrorFromProblem } from '../errors/factory.js';
+import { pemToBase64Url } from '../utils/index.js';
+
+/** JWK members that only exist on private keys (RFC 7518 Section 6) */
+const PRIVATE_JWK_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth'] as const;
+
+/**
+ * Build the revokeCert payload
+ *
+ * @param certificatePem - PEM-encoded certificate (full chain or leaf only)
+ * @param reason - Optional RFC 5280 CRL reason code
+ */
+export function buildRevocationPayload(
+  certificatePem: string,
+  reason?: number,
+): Record<string, unknown> {
+  const payload: Record<string, unknown> = { certificate: pemToBase64Url(certificatePem) };
+  if (reason !== undefined) {
+    payload.reason = reason;
+  }
+  return payload;
+}
+
+/**
+ * WebCrypto import parameters for a JWK
+ */
+function importParamsFor(
+  jwk: JsonWebKey,
+): webcrypto.EcKeyImportParams | webcrypto.RsaHashedImportParams {
+  if (jwk.kty === 'EC' && jwk.crv) {
+    return { name: 'ECDSA', namedCurve: jwk.crv };
+  }
+  if (jwk.kty === 'RSA') {
+    return { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+  }
+  throw new Error(`Unsupported certificate key type: ${jwk.kty ?? 'unknown'}`);
+}
+
+/**
+ * Turn a certificate private key (CryptoKey or PKCS#8/SEC1/PKCS#1 PEM) into a
+ * sign/verify key pair usable by AcmeRequestSigner
+ */
+async function toSigningKeys(certPrivateKey: webcrypto.CryptoKey | string): Promise<AccountKeys> {
+  const privateJwk: JsonWebKey =
+    typeof certPrivateKey === 'string'
+      ? createPrivateKey(certPrivateKey).export({ format: 'jwk' })
+      : ((await webcrypto.subtle.exportKey('jwk', certPrivateKey)) as JsonWebKey);
+
+  const publicJwk: JsonWebKey = { ...privateJwk };
+  for (const member of PRIVATE_JWK_MEMBERS) {
+    delete publicJwk[member];
+  }
+  delete publicJwk.key_ops;
+
+  const params = importParamsFor(privateJwk);
+  const privateKey =
+    typeof certPrivateKey === 'string'
+      ? await webcrypto.subtle.importKey('jwk', privateJwk, params, false, ['sign'])
+      : certPrivateKey;
+  const publicKey = await webcrypto.subtle.importKey('jwk', publicJwk, params, true, ['verify']);
+
+  return { privateKey, publicKey };
+}
+
+/**
+ * Revoke a certificate using the certificate's own private key
+ *
+ * The request is signed with a `jwk` header for the certificate key, so no
+ * ACME account is needed. Use this when the account that issued the
+ * certificate is lost or no longer under your control.
+ *
+ * @param client - ACME client for the issuing CA
+ * @param certificatePem - PEM-encoded certificate (full chain or leaf only)
+ * @param certPrivateKey - Certificate private key as CryptoKey (extractable) or PEM
+ * @param reason - Optional RFC 5280 CRL reason code (see REVOCATION_REASON)
+ * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.6
+ */
+export async function revokeCertificateWithKey(
+  client: AcmeClient,
+  certificatePem: string,
+  certPrivateKey: webcrypto.CryptoKey | string,
+  reason?: number,
+): Promise<void> {
+  const signer = new AcmeRequestSigner(client, await toSigningKeys(certPrivateKey), {});
+  const directory = await signer.getDirectory();
+
+  const response = await signer.signedPost(
+    directory.revokeCert,
+    buildRevocationPayload(certificatePem, reason),
+    true,
+  );
+
+  if (response.statusCode !== 200) {
+    throw createErrorFromProblem(response.body);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * X.509 Certificate Helpers
+ *
+ * Parsing utilities for certificates issued through ACME.
+ * Features:
+ * - PEM chain splitting
+ * - Chain issuer inspection for preferred-chain selection
+ * - ACME Renewal Information (ARI) certificate identifiers
+ */
+
+import { AsnConvert } from '@peculiar/asn1-schema';
+import {
+  AuthorityKeyIdentifier,
+  Certificate,
+  id_ce_authorityKeyIdentifier,
+} from '@peculiar/asn1-x509';
+import { X509Certificate } from '@peculiar/x509';
+
+const PEM_CERTIFICATE_RE = /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+/**
+ * Split a PEM bundle into individual certificates (leaf first, as served by ACME)
+ */
+export function splitPemChain(pem: string): string[] {
+  return pem.match(PEM_CERTIFICATE_RE) ?? [];
+}
+
+/**
+ * Decode a single PEM certificate block to its DER bytes
+ */
+function pemToDer(pem: string): Buffer {
+  const body = pem
+    .replace(/-----BEGIN CERTIFICATE-----/, '')
+    .replace(/-----END CERTIFICATE-----/, '')
+    .replace(/\s/g, '');
+  return Buffer.from(body, 'base64');
+}
+
+/**
+ * Parse the first certificate of a PEM bundle into its ASN.1 structure
+ */
+export function parseCertificatePem(pem: string): Certificate {
+  const [first] = splitPemChain(pem);
+  if (!first) {
+    throw new Error('No PEM certificate found in input');
+  }
+  return AsnConvert.parse(pemToDer(first), Certificate);
+}
+
+/**
+ * Issuer common name of the topmost certificate in a PEM chain
+ *
+ * This is the name used to pick a preferred chain (e.g. "ISRG Root X1"):
+ * the issuer of the last certificate served, i.e. the root it chains to.
+ *
+ * @returns The issuer CN, or undefined if the chain is empty or has no CN
+ */
+export function getChainTopIssuer(chainPem: string): string | undefined {
+  const top = splitPemChain(chainPem).at(-1);
+  if (!top) {
+    return undefined;
+  }
+  return new X509Certificate(top).issuerName.getField('CN')[0];
+}
+
+/**
+ * Compute the ARI certificate identifier of a certificate
+ *
+ * The identifier is base64url(AKI keyIdentifier) + '.' + base64url(serial),
+ * where the serial is the DER-encoded INTEGER value (including a leading
+ * zero byte when present). Only the first certificate of a chain is used.
+ *
+ * @param certPem - PEM-encoded certificate (leaf or full chain)
+ * @see https://datatracker.ietf.org/doc/html/rfc9773#section-4.1
+ */
+export function getAriCertificateId(certPem: string): string {
+  const cert = parseCertificatePem(certPem);
+  const { extensions, serialNumber } = cert.tbsCertificate;
+
+  const akiExtension = extensions?.find((ext) => ext.extnID === id_ce_authorityKeyIdentifier);
+  if (!akiExtension) {
+    throw new Error('Certificate has no Authority Key Identifier extension');
+  }
+
+  const aki = AsnConvert.parse(akiExtension.extnValue, AuthorityKeyIdentifier);
+  if (!aki.keyIdentifier) {
+    throw new Error('Authority Key Identifier extension has no keyIdentifier');
+  }
+
+  const keyIdentifier = Buffer.from(aki.keyIdentifier.buffer).toString('base64url');
+  const serial = Buffer.from(serialNumber).toString('base64url');
+  return `${keyIdentifier}.${serial}`;
+}
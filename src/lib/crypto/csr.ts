@@ -5,7 +5,7 @@
  * Features:
  * - ECDSA P-256, P-384, P-521 support
  * - RSA 2048, 3072, 4096 bit support
- * - Subject Alternative Names (SAN)
+ * - Subject Alternative Names (SAN), DNS names and IP addresses (RFC 8738)
  * - WebCrypto API based
  * - Cross-platform compatibility
  */
@@ -18,6 +18,7 @@ import {
   type Pkcs10CertificateRequestCreateParamsName,
 } from '@peculiar/x509';
 import type { webcrypto } from 'crypto';
+import { isIpAddress, normalizeIpAddress } from '../utils/identifier.js';
 
 /**
  * ACME Account Cryptographic Keys (RFC 8555)
@@ -111,13 +112,14 @@ export async function generateKeyPair(algo: AcmeCertificateAlgorithm): Promise<A
 }
 
 /**
- * Creates a CSR for ACME with SAN = all provided DNS names.
- * `commonName` defaults to the first DNS name.
+ * Creates a CSR for ACME with SAN = all provided DNS names and IP addresses.
+ * IP literals become iPAddress SAN entries. `commonName` defaults to the
+ * first DNS name; when only IP addresses are given the subject is left empty.
  */
 export async function createAcmeCsr(
   dnsNames: string[],
   algo: AcmeCertificateAlgorithm,
-  commonName: string = dnsNames[0],
+  commonName: string | undefined = dnsNames.find((n) => !isIpAddress(n)),
   keys?: AcmeCryptoKeyPair,
 ): Promise<CreateCsrResult> {
   if (!dnsNames?.length) {
@@ -128,10 +130,14 @@ export async function createAcmeCsr(
   const keyPair = keys ?? (await generateKeyPair(algo));
 
   // ACME CSR usually has CN = first SAN entry
-  const name: Pkcs10CertificateRequestCreateParamsName = `CN=${commonName}`;
+  const name: Pkcs10CertificateRequestCreateParamsName = commonName ? `CN=${commonName}` : '';
 
-  // SAN extension: pass "dns:example.org" strings (see SubjectAlternativeNameExtension API)
-  const san = new SubjectAlternativeNameExtension(dnsNames.map((n) => ({ type: 'dns', value: n })));
+  // SAN extension: one GeneralName per identifier (see SubjectAlternativeNameExtension API)
+  const san = new SubjectAlternativeNameExtension(
+    dnsNames.map((n) =>
+      isIpAddress(n) ? { type: 'ip', value: normalizeIpAddress(n) } : { type: 'dns', value: n },
+    ),
+  );
 
   // Map our algo to signingAlgorithm for the CSR
   const signingAlgorithm =
@@ -17,3 +17,19 @@ export {
 
 // ACME Signing
 export { type AcmeSigner, JoseAcmeSigner } from './signer.js';
+
+// TLS-ALPN-01 Validation Certificates
+export {
+  createTlsAlpn01Certificate,
+  ID_PE_ACME_IDENTIFIER,
+  ACME_TLS_ALPN_PROTOCOL,
+  type TlsAlpn01Certificate,
+} from './tls-alpn.js';
+
+// Certificate Parsing
+export {
+  splitPemChain,
+  parseCertificatePem,
+  getChainTopIssuer,
+  getAriCertificateId,
+} from './certificate.js';
@@ -38,6 +38,14 @@ export interface AcmeSigner {
   getAccount(): AcmeAccountKeyPair;
 }
 
+/**
+ * TLS-ALPN-01 digest of a key authorization: raw sha256, 32 bytes
+ * @see https://datatracker.ietf.org/doc/html/rfc8737#section-3
+ */
+export function tlsAlpn01KeyAuthorizationDigest(keyAuthorization: string): Buffer {
+  return createHash('sha256').update(keyAuthorization).digest();
+}
+
 /** JOSE/WebCrypto-based signer for ACME account keys */
 export class JoseAcmeSigner implements AcmeSigner {
   private jwkPromise: Promise<JWK> | null = null;
@@ -85,6 +93,6 @@ export class JoseAcmeSigner implements AcmeSigner {
 
   public async tlsAlpn01Digest(token: string): Promise<Buffer> {
     const ka = await this.generateKeyAuthorization(token);
-    return createHash('sha256').update(ka).digest(); // 32 bytes
+    return tlsAlpn01KeyAuthorizationDigest(ka);
   }
 }
@@ -0,0 +1,100 @@
+/**
+ * RFC 8737 TLS-ALPN-01 Validation Certificate
+ *
+ * Builds the self-signed certificate served on the `acme-tls/1` ALPN protocol.
+ * Features:
+ * - Single SAN for the identifier being validated (dNSName or iPAddress)
+ * - Critical id-pe-acmeIdentifier extension carrying sha256(keyAuthorization)
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8737#section-3
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  cryptoProvider,
+  Extension,
+  PemConverter,
+  SubjectAlternativeNameExtension,
+  X509CertificateGenerator,
+} from '@peculiar/x509';
+import { generateKeyPair, type AcmeCertificateAlgorithm } from './csr.js';
+import { tlsAlpn01KeyAuthorizationDigest } from './signer.js';
+import { isIpAddress, normalizeIpAddress } from '../utils/identifier.js';
+
+/** OID of the id-pe-acmeIdentifier certificate extension (RFC 8737 Section 6.1) */
+export const ID_PE_ACME_IDENTIFIER = '1.3.6.1.5.5.7.1.31';
+
+/** ALPN protocol name negotiated by TLS-ALPN-01 validators */
+export const ACME_TLS_ALPN_PROTOCOL = 'acme-tls/1';
+
+/**
+ * Self-signed TLS-ALPN-01 validation certificate and its key (PEM)
+ */
+export interface TlsAlpn01Certificate {
+  /** PEM-encoded self-signed certificate */
+  certificate: string;
+  /** PEM-encoded PKCS#8 private key */
+  privateKey: string;
+}
+
+const DEFAULT_ALGORITHM: AcmeCertificateAlgorithm = {
+  kind: 'ec',
+  namedCurve: 'P-256',
+  hash: 'SHA-256',
+};
+
+/**
+ * Create the TLS-ALPN-01 validation certificate for an identifier
+ *
+ * @param identifier - Domain name or IP address being validated
+ * @param keyAuthorization - Key authorization for the challenge token
+ * @param algo - Key algorithm for the throwaway certificate key (default: EC P-256)
+ * @see https://datatracker.ietf.org/doc/html/rfc8737#section-3
+ */
+export async function createTlsAlpn01Certificate(
+  identifier: string,
+  keyAuthorization: string,
+  algo: AcmeCertificateAlgorithm = DEFAULT_ALGORITHM,
+): Promise<TlsAlpn01Certificate> {
+  const keys = await generateKeyPair(algo);
+  if (!keys.privateKey) {
+    throw new Error('Key generation did not return a private key');
+  }
+
+  // extnValue is the DER encoding of Authorization ::= OCTET STRING (SIZE (32))
+  const digest = tlsAlpn01KeyAuthorizationDigest(keyAuthorization);
+  const acmeIdentifier = new Extension(
+    ID_PE_ACME_IDENTIFIER,
+    true,
+    Buffer.concat([Buffer.from([0x04, digest.length]), digest]),
+  );
+
+  const san = new SubjectAlternativeNameExtension([
+    isIpAddress(identifier)
+      ? { type: 'ip', value: normalizeIpAddress(identifier) }
+      : { type: 'dns', value: identifier },
+  ]);
+
+  const signingAlgorithm =
+    algo.kind === 'ec'
+      ? ({ name: 'ECDSA', hash: algo.hash } as const)
+      : ({ name: 'RSASSA-PKCS1-v1_5', hash: algo.hash } as const);
+
+  const now = Date.now();
+  const cert = await X509CertificateGenerator.createSelfSigned({
+    serialNumber: `01${randomBytes(15).toString('hex')}`,
+    name: '',
+    notBefore: new Date(now - 24 * 60 * 60 * 1000),
+    notAfter: new Date(now + 7 * 24 * 60 * 60 * 1000),
+    keys: { publicKey: keys.publicKey, privateKey: keys.privateKey },
+    signingAlgorithm,
+    extensions: [san, acmeIdentifier],
+  });
+
+  const pkcs8 = await cryptoProvider.get().subtle.exportKey('pkcs8', keys.privateKey);
+
+  return {
+    certificate: cert.toString('pem'),
+    privateKey: PemConverter.encode(pkcs8, 'PRIVATE KEY'),
+  };
+}
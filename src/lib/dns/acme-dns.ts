@@ -0,0 +1,150 @@
+/**
+ * acme-dns Client Provider
+ *
+ * Publishes DNS-01 values through an acme-dns instance, for domains whose
+ * `_acme-challenge` name is a CNAME to the account's `fulldomain`.
+ * Features:
+ * - Account registration (`POST /register`)
+ * - TXT updates (`POST /update`) with per-domain credentials
+ * - Works with `createDns01Handler`; the default check follows the CNAME
+ *
+ * acme-dns keeps the two most recent values per subdomain and has no delete
+ * endpoint, so `removeTxt` is a no-op.
+ *
+ * @see https://github.com/joohoi/acme-dns
+ */
+
+import { request } from 'undici';
+import { buildUserAgent } from '../utils/user-agent.js';
+import type { DnsProvider } from './provider.js';
+
+/**
+ * Credentials returned by acme-dns registration; store them per domain
+ */
+export interface AcmeDnsAccount {
+  username: string;
+  password: string;
+  /** Name to point the `_acme-challenge` CNAME at */
+  fulldomain: string;
+  subdomain: string;
+  allowfrom?: string[];
+}
+
+/**
+ * Options for the acme-dns provider
+ */
+export interface AcmeDnsProviderOptions {
+  /** Base URL of the acme-dns API, e.g. `https://auth.acme-dns.io` */
+  server: string;
+  /** Registered accounts keyed by domain (`example.com` also serves `*.example.com`) */
+  accounts?: Record<string, AcmeDnsAccount>;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+}
+
+/**
+ * DNS provider backed by acme-dns
+ */
+export interface AcmeDnsProvider extends DnsProvider {
+  /**
+   * Register a new acme-dns account
+   *
+   * @param allowFrom - CIDR ranges allowed to update the account
+   */
+  register(allowFrom?: string[]): Promise<AcmeDnsAccount>;
+}
+
+/** Domain an `_acme-challenge` record name belongs to */
+function domainOf(fqdn: string): string {
+  return fqdn
+    .replace(/\.$/, '')
+    .replace(/^_acme-challenge\./i, '')
+    .toLowerCase();
+}
+
+/**
+ * Create a DNS provider that updates TXT values through acme-dns
+ *
+ * @example
+ * ```typescript
+ * const acmeDns = createAcmeDnsProvider({ server: 'https://auth.acme-dns.io' });
+ * const account = await acmeDns.register();
+ * // Persist `account`, then create: _acme-challenge.example.com CNAME <account.fulldomain>
+ *
+ * const provider = createAcmeDnsProvider({
+ *   server: 'https://auth.acme-dns.io',
+ *   accounts: { 'example.com': account },
+ * });
+ * await acct.solveDns01(order, createDns01Handler(provider));
+ * ```
+ */
+export function createAcmeDnsProvider(opts: AcmeDnsProviderOptions): AcmeDnsProvider {
+  const base = opts.server.replace(/\/+$/, '');
+  const timeoutMs = opts.timeoutMs ?? 10000;
+  const accounts = new Map(
+    Object.entries(opts.accounts ?? {}).map(([domain, account]) => [domainOf(domain), account]),
+  );
+
+  const post = async (
+    path: string,
+    body: unknown,
+    headers: Record<string, string> = {},
+  ): Promise<{ statusCode: number; text: string }> => {
+    const response = await request(`${base}${path}`, {
+      method: 'POST',
+      headers: {
+        'User-Agent': buildUserAgent(),
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      bodyTimeout: timeoutMs,
+      headersTimeout: timeoutMs,
+    });
+    return { statusCode: response.statusCode, text: await response.body.text() };
+  };
+
+  const accountFor = (fqdn: string): AcmeDnsAccount => {
+    const domain = domainOf(fqdn).replace(/^\*\./, '');
+    const account = accounts.get(domain);
+    if (!account) {
+      throw new Error(`No acme-dns account configured for ${domain}`);
+    }
+    return account;
+  };
+
+  return {
+    register: async (allowFrom) => {
+      const { statusCode, text } = await post(
+        '/register',
+        allowFrom && allowFrom.length > 0 ? { allowfrom: allowFrom } : {},
+      );
+      if (statusCode !== 201 && statusCode !== 200) {
+        throw new Error(`acme-dns registration failed: HTTP ${statusCode} ${text}`);
+      }
+      const account = JSON.parse(text) as AcmeDnsAccount;
+      if (!account.username || !account.password || !account.subdomain || !account.fulldomain) {
+        throw new Error('acme-dns registration response is missing credentials');
+      }
+      return account;
+    },
+    zoneFor: async (fqdn) => {
+      // Records live below the acme-dns zone, not the domain's own zone
+      return accountFor(fqdn).fulldomain.replace(/\.$/, '').split('.').slice(1).join('.');
+    },
+    createTxt: async (fqdn, value) => {
+      const account = accountFor(fqdn);
+      const { statusCode, text } = await post(
+        '/update',
+        { subdomain: account.subdomain, txt: value },
+        { 'X-Api-User': account.username, 'X-Api-Key': account.password },
+      );
+      if (statusCode !== 200) {
+        throw new Error(`acme-dns update for ${domainOf(fqdn)} failed: HTTP ${statusCode} ${text}`);
+      }
+    },
+    removeTxt: async () => {
+      // acme-dns rotates values itself and offers no delete endpoint
+    },
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * RFC 8659 CAA Pre-flight Check
+ *
+ * Evaluates Certification Authority Authorization records before an order is
+ * placed, so a CA refusal is reported before any challenge is provisioned.
+ * Features:
+ * - Relevant record set discovery by climbing the DNS tree
+ * - `issue` / `issuewild` / `iodef` parsing
+ * - RFC 8657 `accounturi` and `validationmethods` parameters
+ * - Unknown critical properties block issuance, as the CA would
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8659
+ * @see https://datatracker.ietf.org/doc/html/rfc8657
+ */
+
+import type { AcmeDirectory } from '../types/directory.js';
+import { isIpAddress } from '../utils/identifier.js';
+import { systemResolver, type DnsResolver } from './resolver.js';
+
+/** Issuer Critical flag (RFC 8659 Section 4.1) */
+const CRITICAL_FLAG = 128;
+
+/** Property tags this checker understands */
+const KNOWN_TAGS = new Set(['issue', 'issuewild', 'iodef', 'contactemail', 'contactphone']);
+
+/**
+ * Single CAA property from the relevant record set
+ */
+export interface CaaProperty {
+  /** Whether the Issuer Critical flag is set */
+  critical: boolean;
+  /** Property tag (`issue`, `issuewild`, `iodef`, ...) */
+  tag: string;
+  /** Raw property value */
+  value: string;
+}
+
+/**
+ * Parsed `issue` / `issuewild` value
+ */
+export interface CaaIssuer {
+  /** Issuer domain name; empty when the record forbids all issuance (`;`) */
+  issuer: string;
+  /** Parameters such as `accounturi` and `validationmethods`, keys lowercased */
+  parameters: Record<string, string>;
+}
+
+/**
+ * Options for {@link checkCaa}
+ */
+export interface CaaCheckOptions {
+  /** ACME account URL, matched against `accounturi` (RFC 8657 Section 3) */
+  accountUri?: string;
+  /** Challenge type that will be used, matched against `validationmethods` */
+  challengeType?: string;
+  /** Resolver for the CAA lookups (default: system resolver) */
+  resolver?: DnsResolver;
+}
+
+/**
+ * Outcome of a CAA pre-flight check
+ */
+export interface CaaCheckResult {
+  /** Identifier that was checked */
+  domain: string;
+  /** Whether the CA (and account / method, if given) may issue */
+  allowed: boolean;
+  /** Name holding the relevant record set; absent when no CAA records exist */
+  relevantName?: string;
+  /** Properties of the relevant record set */
+  properties: CaaProperty[];
+  /** Validation methods permitted by the matching records (absent when unrestricted) */
+  validationMethods?: string[];
+  /** Incident reporting URLs from `iodef` properties */
+  iodef: string[];
+  /** Why issuance is or is not allowed */
+  reasons: string[];
+}
+
+/**
+ * Parse an `issue` / `issuewild` property value
+ *
+ * @example
+ * ```typescript
+ * parseCaaIssuer('letsencrypt.org; validationmethods=dns-01');
+ * // { issuer: 'letsencrypt.org', parameters: { validationmethods: 'dns-01' } }
+ * ```
+ */
+export function parseCaaIssuer(value: string): CaaIssuer {
+  const [issuer = '', ...rest] = value.split(';');
+  const parameters: Record<string, string> = {};
+  for (const part of rest) {
+    const separator = part.indexOf('=');
+    if (separator <= 0) continue;
+    parameters[part.slice(0, separator).trim().toLowerCase()] = part.slice(separator + 1).trim();
+  }
+  return { issuer: issuer.trim().toLowerCase(), parameters };
+}
+
+/** Lookup that treats "no CAA records" answers as an empty set */
+async function lookupCaa(name: string, resolver: DnsResolver): Promise<CaaProperty[]> {
+  try {
+    const records = await resolver.resolveCaa(name);
+    return records.flatMap((record) =>
+      Object.entries(record)
+        .filter(([tag]) => tag !== 'critical')
+        .map(([tag, value]) => ({
+          critical: (record.critical & CRITICAL_FLAG) !== 0,
+          tag: tag.toLowerCase(),
+          value: String(value),
+        })),
+    );
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENODATA' || code === 'ENOTFOUND') return [];
+    throw error;
+  }
+}
+
+/**
+ * Check whether CAA records allow the directory's CA to issue for a domain
+ *
+ * The relevant record set is the first non-empty CAA set found at the domain
+ * or any parent (the CA climbs past zone cuts, RFC 8659 Section 3). Wildcard
+ * identifiers (`*.example.com`) honour `issuewild` when present. The CA is
+ * identified by `meta.caaIdentities` from the directory.
+ *
+ * @param domain - Domain name (or `*.` wildcard) that will be ordered
+ * @param directory - ACME directory of the CA
+ * @param opts - Account URL and challenge type for RFC 8657 parameters, and the resolver
+ * @throws {Error} When a DNS lookup fails with something other than NODATA/NXDOMAIN
+ */
+export async function checkCaa(
+  domain: string,
+  directory: Pick<AcmeDirectory, 'meta'>,
+  opts: CaaCheckOptions = {},
+): Promise<CaaCheckResult> {
+  const wildcard = domain.startsWith('*.');
+  const name = domain.replace(/^\*\./, '').replace(/\.$/, '').toLowerCase();
+
+  if (isIpAddress(name)) {
+    return {
+      domain,
+      allowed: true,
+      properties: [],
+      iodef: [],
+      reasons: ['CAA does not apply to IP address identifiers'],
+    };
+  }
+
+  const labels = name.split('.');
+  let relevantName: string | undefined;
+  let properties: CaaProperty[] = [];
+  for (let i = 0; i < labels.length && !relevantName; i++) {
+    const candidate = labels.slice(i).join('.');
+    const found = await lookupCaa(candidate, opts.resolver ?? systemResolver);
+    if (found.length > 0) {
+      relevantName = candidate;
+      properties = found;
+    }
+  }
+
+  const iodef = properties.filter((p) => p.tag === 'iodef').map((p) => p.value);
+  const result = { domain, properties, iodef };
+  if (!relevantName) {
+    return { ...result, allowed: true, reasons: ['No CAA records; any CA may issue'] };
+  }
+
+  const unknownCritical = properties.filter((p) => p.critical && !KNOWN_TAGS.has(p.tag));
+  if (unknownCritical.length > 0) {
+    return {
+      ...result,
+      relevantName,
+      allowed: false,
+      reasons: unknownCritical.map(
+        (p) => `Unknown critical CAA property "${p.tag}" forbids issuance`,
+      ),
+    };
+  }
+
+  const issueWild = properties.filter((p) => p.tag === 'issuewild');
+  const relevant =
+    wildcard && issueWild.length > 0 ? issueWild : properties.filter((p) => p.tag === 'issue');
+  if (relevant.length === 0) {
+    return {
+      ...result,
+      relevantName,
+      allowed: true,
+      reasons: [`CAA at ${relevantName} does not restrict issuance`],
+    };
+  }
+
+  const identities = (directory.meta?.caaIdentities ?? []).map((id) => id.toLowerCase());
+  if (identities.length === 0) {
+    return {
+      ...result,
+      relevantName,
+      allowed: false,
+      reasons: [
+        `CAA at ${relevantName} restricts issuance, but the directory advertises no caaIdentities`,
+      ],
+    };
+  }
+
+  const reasons: string[] = [];
+  const methods = new Set<string>();
+  let unrestricted = false;
+  let allowed = false;
+
+  for (const property of relevant) {
+    const { issuer, parameters } = parseCaaIssuer(property.value);
+    const label = `${property.tag} "${property.value}"`;
+    if (!issuer) {
+      reasons.push(`${label} forbids issuance`);
+      continue;
+    }
+    if (!identities.includes(issuer)) {
+      reasons.push(`${label} does not authorize ${identities.join(', ')}`);
+      continue;
+    }
+    if (parameters.accounturi !== undefined && parameters.accounturi !== opts.accountUri) {
+      reasons.push(
+        opts.accountUri
+          ? `${label} is bound to a different account`
+          : `${label} is bound to an account; pass accountUri to verify it`,
+      );
+      continue;
+    }
+    const validationMethods = parameters.validationmethods
+      ?.split(',')
+      .map((method) => method.trim().toLowerCase())
+      .filter(Boolean);
+    if (
+      validationMethods &&
+      opts.challengeType &&
+      !validationMethods.includes(opts.challengeType.toLowerCase())
+    ) {
+      reasons.push(`${label} does not permit ${opts.challengeType}`);
+      continue;
+    }
+
+    allowed = true;
+    reasons.push(`${label} authorizes this CA`);
+    if (validationMethods) validationMethods.forEach((method) => methods.add(method));
+    else unrestricted = true;
+  }
+
+  return {
+    ...result,
+    relevantName,
+    allowed,
+    ...(allowed && !unrestricted && { validationMethods: [...methods] }),
+    reasons,
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * DNS Providers and Wire Format
+ *
+ * Providers that publish DNS-01 TXT records, the resolvers used to check
+ * them, plus the DNS message encoding they share.
+ */
+
+// DNS Provider interface and DNS-01 adapter
+export {
+  createDns01Handler,
+  type DnsProvider,
+  type Dns01Handler,
+  type Dns01HandlerOptions,
+  type Dns01Preparation,
+} from './provider.js';
+
+// RFC 2136 Dynamic Updates
+export { createRfc2136Provider, type Rfc2136ProviderOptions } from './rfc2136.js';
+
+// acme-dns
+export {
+  createAcmeDnsProvider,
+  type AcmeDnsAccount,
+  type AcmeDnsProvider,
+  type AcmeDnsProviderOptions,
+} from './acme-dns.js';
+
+// Resolvers (system, pinned servers, RFC 8484 DNS-over-HTTPS)
+export {
+  createDohResolver,
+  createPinnedResolver,
+  createSystemResolver,
+  type DnsResolver,
+  type DohResolverOptions,
+  type PinnedResolverOptions,
+} from './resolver.js';
+
+// RFC 8659 CAA
+export {
+  checkCaa,
+  parseCaaIssuer,
+  type CaaCheckOptions,
+  type CaaCheckResult,
+  type CaaIssuer,
+  type CaaProperty,
+} from './caa.js';
+
+// RFC 8945 TSIG
+export {
+  signTsigRequest,
+  verifyTsigResponse,
+  type TsigAlgorithm,
+  type TsigKey,
+  type TsigSignedMessage,
+} from './tsig.js';
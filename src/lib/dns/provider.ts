@@ -0,0 +1,90 @@
+/**
+ * Pluggable DNS Providers for DNS-01
+ *
+ * A DnsProvider manages `_acme-challenge` TXT records through some DNS API;
+ * the adapter turns it into callbacks for `solveDns01` and `solve`.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8555#section-8.4
+ */
+
+import {
+  createDnsPropagationWaiter,
+  type DnsPropagationWaiterOptions,
+} from '../challenges/dns-propagation.js';
+
+/**
+ * Backend that can publish and withdraw TXT records
+ */
+export interface DnsProvider {
+  /** Zone (apex name) that contains the record name */
+  zoneFor(fqdn: string): Promise<string>;
+  /** Add a TXT record with the given value, keeping existing values */
+  createTxt(fqdn: string, value: string): Promise<void>;
+  /** Remove the TXT record with exactly this value */
+  removeTxt(fqdn: string, value: string): Promise<void>;
+}
+
+/**
+ * Challenge data accepted by the adapter (compatible with ChallengePreparation)
+ */
+export interface Dns01Preparation {
+  /** Record name, e.g. `_acme-challenge.example.com` */
+  target: string;
+  /** TXT value */
+  value: string;
+}
+
+/**
+ * Options for {@link createDns01Handler}
+ */
+export interface Dns01HandlerOptions {
+  /** Custom propagation check (default: createDnsPropagationWaiter) */
+  waitFor?: (preparation: Dns01Preparation) => Promise<void>;
+  /** Options for the default propagation check */
+  propagation?: DnsPropagationWaiterOptions;
+}
+
+/**
+ * DNS-01 callbacks backed by a DnsProvider
+ *
+ * Pass it to `solveDns01` (setDns/removeDns/waitFor) or as the `dns-01`
+ * entry of `solve` handlers (setChallenge/cleanup/waitFor).
+ */
+export interface Dns01Handler {
+  setDns(preparation: Dns01Preparation): Promise<void>;
+  removeDns(preparation: Dns01Preparation): Promise<void>;
+  setChallenge(preparation: Dns01Preparation): Promise<void>;
+  cleanup(preparation: Dns01Preparation): Promise<void>;
+  waitFor(preparation: Dns01Preparation): Promise<void>;
+}
+
+/**
+ * Adapt a DnsProvider to DNS-01 challenge callbacks
+ *
+ * @example
+ * ```typescript
+ * const dns = createDns01Handler(createRfc2136Provider({ server: '192.0.2.53', tsig }));
+ * await account.solveDns01(order, dns);
+ * // or
+ * await account.solve(order, { handlers: { 'dns-01': dns } });
+ * ```
+ */
+export function createDns01Handler(
+  provider: DnsProvider,
+  opts: Dns01HandlerOptions = {},
+): Dns01Handler {
+  const set = (preparation: Dns01Preparation): Promise<void> =>
+    provider.createTxt(preparation.target, preparation.value);
+  const remove = (preparation: Dns01Preparation): Promise<void> =>
+    provider.removeTxt(preparation.target, preparation.value);
+
+  const waitFor = opts.waitFor ?? createDnsPropagationWaiter(opts.propagation);
+
+  return {
+    setDns: set,
+    removeDns: remove,
+    setChallenge: set,
+    cleanup: remove,
+    waitFor,
+  };
+}
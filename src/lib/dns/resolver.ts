@@ -0,0 +1,245 @@
+/**
+ * Pluggable DNS Resolvers
+ *
+ * Lookup abstraction used by the DNS-01 validators, so checks can be pointed
+ * at a specific resolver instead of the system configuration (e.g. behind a
+ * split-horizon DNS that hides public records).
+ * Features:
+ * - System resolver (`dns/promises`, the default)
+ * - Resolver pinned to explicit server addresses
+ * - DNS-over-HTTPS resolver (RFC 8484 wire format over HTTPS POST)
+ *
+ * Failed lookups reject with Node-style errors (`code` such as `ENOTFOUND`,
+ * `ENODATA` or `ESERVFAIL`), whichever implementation is used.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8484
+ */
+
+import type { CaaRecord } from 'dns';
+import {
+  resolveTxt,
+  resolveNs,
+  resolve4,
+  resolve6,
+  resolveCname,
+  resolveCaa,
+  Resolver,
+} from 'dns/promises';
+import { request } from 'undici';
+import { buildUserAgent } from '../utils/user-agent.js';
+import {
+  DNS_CLASS,
+  DNS_OPCODE,
+  DNS_RCODE,
+  DNS_TYPE,
+  decodeCaaData,
+  decodeMessage,
+  decodeTxtData,
+  encodeMessage,
+  getRcode,
+  isResponse,
+  rcodeName,
+  readName,
+  requestFlags,
+  type DnsRecord,
+} from './wire.js';
+
+/**
+ * Lookups needed by the DNS-01 validators and the CAA check
+ */
+export interface DnsResolver {
+  /** TXT records as character-string fragments, like `dns.resolveTxt` */
+  resolveTxt(name: string): Promise<string[][]>;
+  resolveNs(name: string): Promise<string[]>;
+  resolve4(name: string): Promise<string[]>;
+  resolve6(name: string): Promise<string[]>;
+  resolveCname(name: string): Promise<string[]>;
+  /** CAA records, like `dns.resolveCaa` (`{ critical, <tag>: value }`) */
+  resolveCaa(name: string): Promise<CaaRecord[]>;
+  /**
+   * Resolver that queries these name server IPs directly, used for
+   * authoritative checks (default: {@link createPinnedResolver})
+   */
+  forServers?(servers: string[]): DnsResolver;
+}
+
+/**
+ * Options for {@link createPinnedResolver}
+ */
+export interface PinnedResolverOptions {
+  /** Server addresses, optionally with port (`192.0.2.53`, `192.0.2.53:5353`, `[2001:db8::53]:53`) */
+  servers: string[];
+  /** Initial query timeout in milliseconds (default: c-ares default) */
+  timeoutMs?: number;
+  /** Attempts per server before giving up (default: 4) */
+  tries?: number;
+}
+
+/**
+ * Options for {@link createDohResolver}
+ */
+export interface DohResolverOptions {
+  /** DoH endpoint, e.g. `https://cloudflare-dns.com/dns-query` */
+  url: string;
+  /** Request timeout in milliseconds (default: 5000) */
+  timeoutMs?: number;
+}
+
+/** Resolver backed by the system configuration (`/etc/resolv.conf`) */
+export function createSystemResolver(): DnsResolver {
+  return { resolveTxt, resolveNs, resolve4, resolve6, resolveCname, resolveCaa };
+}
+
+/** Shared default used when no resolver is passed */
+export const systemResolver: DnsResolver = createSystemResolver();
+
+/**
+ * Create a resolver that sends every query to the given servers
+ *
+ * @example
+ * ```typescript
+ * const resolver = createPinnedResolver({ servers: ['1.1.1.1', '8.8.8.8'] });
+ * await resolveAndValidateAcmeTxt('example.com', value, { resolver });
+ * ```
+ */
+export function createPinnedResolver(opts: PinnedResolverOptions): DnsResolver {
+  const resolver = new Resolver({
+    ...(opts.timeoutMs !== undefined && { timeout: opts.timeoutMs }),
+    ...(opts.tries !== undefined && { tries: opts.tries }),
+  });
+  resolver.setServers(opts.servers);
+
+  return {
+    resolveTxt: (name) => resolver.resolveTxt(name),
+    resolveNs: (name) => resolver.resolveNs(name),
+    resolve4: (name) => resolver.resolve4(name),
+    resolve6: (name) => resolver.resolve6(name),
+    resolveCname: (name) => resolver.resolveCname(name),
+    resolveCaa: (name) => resolver.resolveCaa(name),
+    forServers: (servers) => createPinnedResolver({ ...opts, servers }),
+  };
+}
+
+/** Query names as used in Node's DNS error messages */
+const QUERY_NAMES: Record<number, string> = {
+  [DNS_TYPE.A]: 'queryA',
+  [DNS_TYPE.AAAA]: 'queryAaaa',
+  [DNS_TYPE.NS]: 'queryNs',
+  [DNS_TYPE.CNAME]: 'queryCname',
+  [DNS_TYPE.TXT]: 'queryTxt',
+  [DNS_TYPE.CAA]: 'queryCaa',
+};
+
+/** Node-style lookup error (`err.code`, `err.hostname`) */
+function lookupError(type: number, name: string, code: string): NodeJS.ErrnoException {
+  const syscall = QUERY_NAMES[type] ?? 'query';
+  return Object.assign(new Error(`${syscall} ${code} ${name}`), { code, syscall, hostname: name });
+}
+
+/** Text form of an IPv6 address, with the longest zero run compressed */
+function formatIPv6(data: Buffer): string {
+  const groups = Array.from({ length: 8 }, (_, i) => data.readUInt16BE(i * 2).toString(16));
+  let best = { start: -1, length: 0 };
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== '0') {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < 8 && groups[end] === '0') end++;
+    if (end - i > best.length && end - i > 1) best = { start: i, length: end - i };
+    i = end;
+  }
+  if (best.start < 0) return groups.join(':');
+  const head = groups.slice(0, best.start).join(':');
+  const tail = groups.slice(best.start + best.length).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Create a DNS-over-HTTPS resolver (RFC 8484)
+ *
+ * Queries are sent as `application/dns-message` POST requests with ID 0 and
+ * recursion desired; CNAMEs in the answer are skipped for non-CNAME lookups.
+ * DoH endpoints are recursive, so `forServers` queries the given name servers
+ * over plain DNS with the same timeout.
+ *
+ * @example
+ * ```typescript
+ * const resolver = createDohResolver({ url: 'https://cloudflare-dns.com/dns-query' });
+ * await resolveAndValidateAcmeTxtAuthoritative(name, value, { resolver });
+ * ```
+ */
+export function createDohResolver(opts: DohResolverOptions): DnsResolver {
+  const timeoutMs = opts.timeoutMs ?? 5000;
+
+  const query = async (
+    name: string,
+    type: number,
+  ): Promise<{ raw: Buffer; answers: DnsRecord[] }> => {
+    const fqdn = name.replace(/\.$/, '');
+    const body = encodeMessage({
+      id: 0,
+      flags: requestFlags(DNS_OPCODE.QUERY, true),
+      questions: [{ name: fqdn, type, class: DNS_CLASS.IN }],
+      answers: [],
+      authorities: [],
+      additionals: [],
+    });
+
+    const response = await request(opts.url, {
+      method: 'POST',
+      headers: {
+        'User-Agent': buildUserAgent(),
+        'Content-Type': 'application/dns-message',
+        Accept: 'application/dns-message',
+      },
+      body,
+      bodyTimeout: timeoutMs,
+      headersTimeout: timeoutMs,
+    });
+    const raw = Buffer.from(await response.body.arrayBuffer());
+    if (response.statusCode !== 200) {
+      throw new Error(`DoH query for ${fqdn} failed: HTTP ${response.statusCode}`);
+    }
+
+    const message = decodeMessage(raw);
+    if (!isResponse(message)) {
+      throw new Error(`DoH server returned a query instead of a response for ${fqdn}`);
+    }
+    const rcode = getRcode(message);
+    if (rcode === DNS_RCODE.NXDOMAIN) throw lookupError(type, fqdn, 'ENOTFOUND');
+    if (rcode !== DNS_RCODE.NOERROR) throw lookupError(type, fqdn, `E${rcodeName(rcode)}`);
+
+    const answers = message.answers.filter((record) => record.type === type);
+    if (answers.length === 0) throw lookupError(type, fqdn, 'ENODATA');
+    return { raw, answers };
+  };
+
+  const names = async (name: string, type: number): Promise<string[]> => {
+    const { raw, answers } = await query(name, type);
+    return answers.map((record) => {
+      if (record.dataOffset === undefined) {
+        throw new Error(`DoH answer for ${name} has no RDATA offset`);
+      }
+      return readName(raw, record.dataOffset).name;
+    });
+  };
+
+  return {
+    resolveTxt: async (name) =>
+      (await query(name, DNS_TYPE.TXT)).answers.map((record) => decodeTxtData(record.data)),
+    resolveNs: (name) => names(name, DNS_TYPE.NS),
+    resolveCname: (name) => names(name, DNS_TYPE.CNAME),
+    resolve4: async (name) =>
+      (await query(name, DNS_TYPE.A)).answers.map((record) => [...record.data].join('.')),
+    resolve6: async (name) =>
+      (await query(name, DNS_TYPE.AAAA)).answers.map((record) => formatIPv6(record.data)),
+    resolveCaa: async (name) =>
+      (await query(name, DNS_TYPE.CAA)).answers.map((record) => {
+        const { flags, tag, value } = decodeCaaData(record.data);
+        return { critical: flags, [tag]: value } as CaaRecord;
+      }),
+    forServers: (servers) => createPinnedResolver({ servers, timeoutMs }),
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * RFC 2136 Dynamic DNS Update Provider
+ *
+ * Creates and removes DNS-01 TXT records on a primary name server that
+ * accepts dynamic updates (BIND `allow-update`/`update-policy`, Knot, PowerDNS).
+ * Features:
+ * - UPDATE messages sent over UDP with TCP fallback on truncation, or TCP only
+ * - TSIG authentication (RFC 8945)
+ * - Removes only the exact TXT value it created, leaving concurrent records intact
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc2136
+ */
+
+import { createSocket } from 'dgram';
+import { connect, isIPv6 } from 'net';
+import { randomBytes } from 'crypto';
+import { findZoneWithNs } from '../challenges/dns-txt-validator.js';
+import type { DnsProvider } from './provider.js';
+import type { DnsResolver } from './resolver.js';
+import { signTsigRequest, hasTsigRecord, verifyTsigResponse, type TsigKey } from './tsig.js';
+import {
+  DNS_CLASS,
+  DNS_OPCODE,
+  DNS_RCODE,
+  DNS_TYPE,
+  decodeMessage,
+  encodeMessage,
+  encodeTxtData,
+  getRcode,
+  isResponse,
+  isTruncated,
+  rcodeName,
+  requestFlags,
+  type DnsRecord,
+} from './wire.js';
+
+/**
+ * Options for the RFC 2136 provider
+ */
+export interface Rfc2136ProviderOptions {
+  /** Primary name server (host name or IP address) */
+  server: string;
+  /** Name server port (default: 53) */
+  port?: number;
+  /** Zone to update (default: closest enclosing zone with NS records) */
+  zone?: string;
+  /** TSIG key; omit only for servers that allow unsigned updates */
+  tsig?: TsigKey;
+  /** `udp` falls back to TCP when the response is truncated (default: udp) */
+  transport?: 'udp' | 'tcp';
+  /** Per-request timeout in milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** TTL of created TXT records in seconds (default: 60) */
+  ttl?: number;
+  /** Resolver used to find the zone when `zone` is not set (default: system resolver) */
+  resolver?: DnsResolver;
+}
+
+interface ExchangeTarget {
+  server: string;
+  port: number;
+  timeoutMs: number;
+}
+
+function exchangeUdp(request: Buffer, target: ExchangeTarget): Promise<Buffer> {
+  const id = request.readUInt16BE(0);
+  const socket = createSocket(isIPv6(target.server) ? 'udp6' : 'udp4');
+
+  return new Promise<Buffer>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      finish(new Error(`DNS request to ${target.server}:${target.port} timed out (UDP)`));
+    }, target.timeoutMs);
+
+    let settled = false;
+    const finish = (error: Error | null, response?: Buffer): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.close();
+      if (error) reject(error);
+      else resolve(response as Buffer);
+    };
+
+    socket.on('error', (error) => finish(error));
+    socket.on('message', (response) => {
+      // Ignore stray datagrams that do not answer this request
+      if (response.length >= 2 && response.readUInt16BE(0) === id) finish(null, response);
+    });
+    socket.send(request, target.port, target.server, (error) => {
+      if (error) finish(error);
+    });
+  });
+}
+
+function exchangeTcp(request: Buffer, target: ExchangeTarget): Promise<Buffer> {
+  const framed = Buffer.alloc(request.length + 2);
+  framed.writeUInt16BE(request.length, 0);
+  request.copy(framed, 2);
+
+  return new Promise<Buffer>((resolve, reject) => {
+    let received = Buffer.alloc(0);
+    const socket = connect({ host: target.server, port: target.port });
+
+    const timer = setTimeout(() => {
+      finish(new Error(`DNS request to ${target.server}:${target.port} timed out (TCP)`));
+    }, target.timeoutMs);
+
+    let settled = false;
+    const finish = (error: Error | null, response?: Buffer): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(response as Buffer);
+    };
+
+    socket.on('connect', () => socket.write(framed));
+    socket.on('error', (error) => finish(error));
+    socket.on('data', (chunk) => {
+      received = Buffer.concat([received, chunk]);
+      if (received.length >= 2 && received.length >= received.readUInt16BE(0) + 2) {
+        finish(null, received.subarray(2, received.readUInt16BE(0) + 2));
+      }
+    });
+    socket.on('end', () => finish(new Error('DNS server closed the TCP connection early')));
+  });
+}
+
+/**
+ * Create a DNS provider that manages TXT records via RFC 2136 dynamic updates
+ *
+ * @example
+ * ```typescript
+ * const provider = createRfc2136Provider({
+ *   server: 'ns1.example.com',
+ *   tsig: { name: 'acme-key', secret: process.env.TSIG_SECRET!, algorithm: 'hmac-sha256' },
+ * });
+ * await account.solveDns01(order, createDns01Handler(provider));
+ * ```
+ */
+export function createRfc2136Provider(opts: Rfc2136ProviderOptions): DnsProvider {
+  const target: ExchangeTarget = {
+    server: opts.server,
+    port: opts.port ?? 53,
+    timeoutMs: opts.timeoutMs ?? 5000,
+  };
+  const ttl = opts.ttl ?? 60;
+
+  const zoneFor = async (fqdn: string): Promise<string> => {
+    if (opts.zone) return opts.zone.replace(/\.$/, '');
+    const zone = await findZoneWithNs(fqdn, opts.resolver);
+    if (!zone) {
+      throw new Error(`Failed to find zone for ${fqdn}; set the zone option explicitly`);
+    }
+    return zone;
+  };
+
+  const exchange = async (request: Buffer): Promise<Buffer> => {
+    if (opts.transport === 'tcp') return exchangeTcp(request, target);
+    const response = await exchangeUdp(request, target);
+    return isTruncated(decodeMessage(response)) ? exchangeTcp(request, target) : response;
+  };
+
+  const update = async (fqdn: string, record: DnsRecord, action: string): Promise<void> => {
+    const zone = await zoneFor(fqdn);
+    const id = randomBytes(2).readUInt16BE(0);
+    const message = encodeMessage({
+      id,
+      flags: requestFlags(DNS_OPCODE.UPDATE),
+      // Zone section, then the update section in the authority position
+      questions: [{ name: zone, type: DNS_TYPE.SOA, class: DNS_CLASS.IN }],
+      answers: [],
+      authorities: [record],
+      additionals: [],
+    });
+    const signed = opts.tsig ? signTsigRequest(message, opts.tsig) : undefined;
+
+    const response = await exchange(signed?.message ?? message);
+    const decoded = decodeMessage(response);
+    if (decoded.id !== id || !isResponse(decoded)) {
+      throw new Error(`Unexpected DNS response from ${target.server}`);
+    }
+
+    const rcode = getRcode(decoded);
+    // Servers may answer unsigned when they reject the key itself (NOTAUTH/BADKEY)
+    if (opts.tsig && signed && (rcode === DNS_RCODE.NOERROR || hasTsigRecord(response))) {
+      verifyTsigResponse(response, opts.tsig, signed.mac);
+    }
+    if (rcode !== DNS_RCODE.NOERROR) {
+      throw new Error(
+        `DNS UPDATE to ${action} TXT ${fqdn} in zone ${zone} failed: ${rcodeName(rcode)}`,
+      );
+    }
+  };
+
+  return {
+    zoneFor,
+    createTxt: (fqdn, value) =>
+      update(
+        fqdn,
+        {
+          name: fqdn.replace(/\.$/, ''),
+          type: DNS_TYPE.TXT,
+          class: DNS_CLASS.IN,
+          ttl,
+          data: encodeTxtData(value),
+        },
+        'add',
+      ),
+    // Class NONE deletes the single RR matching name, type and RDATA (RFC 2136 Section 2.5.4)
+    removeTxt: (fqdn, value) =>
+      update(
+        fqdn,
+        {
+          name: fqdn.replace(/\.$/, ''),
+          type: DNS_TYPE.TXT,
+          class: DNS_CLASS.NONE,
+          ttl: 0,
+          data: encodeTxtData(value),
+        },
+        'remove',
+      ),
+  };
+}
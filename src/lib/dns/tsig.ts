@@ -0,0 +1,257 @@
+/**
+ * RFC 8945 Secret Key Transaction Authentication (TSIG)
+ *
+ * HMAC signing of DNS requests and verification of signed responses.
+ * Features:
+ * - hmac-sha256 (default), hmac-sha384, hmac-sha512, hmac-sha1 and hmac-md5
+ * - Request MAC chaining for response verification
+ * - Time-signed / fudge checks and TSIG error reporting
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8945
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  DNS_CLASS,
+  DNS_TYPE,
+  decodeMessage,
+  encodeName,
+  encodeRecord,
+  rcodeName,
+  readName,
+  type DnsRecord,
+} from './wire.js';
+
+/** Supported TSIG algorithms */
+export type TsigAlgorithm =
+  | 'hmac-sha256'
+  | 'hmac-sha384'
+  | 'hmac-sha512'
+  | 'hmac-sha1'
+  | 'hmac-md5';
+
+const ALGORITHMS: Record<TsigAlgorithm, { wireName: string; hash: string }> = {
+  'hmac-sha256': { wireName: 'hmac-sha256', hash: 'sha256' },
+  'hmac-sha384': { wireName: 'hmac-sha384', hash: 'sha384' },
+  'hmac-sha512': { wireName: 'hmac-sha512', hash: 'sha512' },
+  'hmac-sha1': { wireName: 'hmac-sha1', hash: 'sha1' },
+  'hmac-md5': { wireName: 'hmac-md5.sig-alg.reg.int', hash: 'md5' },
+};
+
+/** Allowed clock skew in seconds (RFC 8945 Section 10 recommends 300) */
+const DEFAULT_FUDGE = 300;
+
+/**
+ * Shared TSIG key, as configured on the name server (e.g. `key "acme" { ... };` in BIND)
+ */
+export interface TsigKey {
+  /** Key name */
+  name: string;
+  /** Base64-encoded shared secret */
+  secret: string;
+  /** HMAC algorithm (default: hmac-sha256) */
+  algorithm?: TsigAlgorithm;
+}
+
+/**
+ * Signed request bytes and the MAC needed to verify the response
+ */
+export interface TsigSignedMessage {
+  message: Buffer;
+  mac: Buffer;
+}
+
+interface TsigFields {
+  algorithm: string;
+  timeSigned: number;
+  fudge: number;
+  mac: Buffer;
+  originalId: number;
+  error: number;
+  other: Buffer;
+}
+
+function algorithmOf(key: TsigKey): { wireName: string; hash: string } {
+  const algorithm = ALGORITHMS[key.algorithm ?? 'hmac-sha256'];
+  if (!algorithm) {
+    throw new Error(`Unsupported TSIG algorithm: ${key.algorithm}`);
+  }
+  return algorithm;
+}
+
+function writeTime(target: Buffer, offset: number, seconds: number): void {
+  target.writeUInt16BE(Math.floor(seconds / 2 ** 32) & 0xffff, offset);
+  target.writeUInt32BE(seconds >>> 0, offset + 2);
+}
+
+/**
+ * TSIG variables appended to the message for MAC computation (RFC 8945 Section 4.3.3)
+ */
+function tsigVariables(keyName: string, fields: Omit<TsigFields, 'mac' | 'originalId'>): Buffer {
+  const timers = Buffer.alloc(8);
+  writeTime(timers, 0, fields.timeSigned);
+  timers.writeUInt16BE(fields.fudge, 6);
+
+  const trailer = Buffer.alloc(4);
+  trailer.writeUInt16BE(fields.error, 0);
+  trailer.writeUInt16BE(fields.other.length, 2);
+
+  const classTtl = Buffer.alloc(6);
+  classTtl.writeUInt16BE(DNS_CLASS.ANY, 0);
+
+  return Buffer.concat([
+    encodeName(keyName.toLowerCase()),
+    classTtl,
+    encodeName(fields.algorithm.toLowerCase()),
+    timers,
+    trailer,
+    fields.other,
+  ]);
+}
+
+function encodeTsigData(fields: TsigFields): Buffer {
+  const timers = Buffer.alloc(10);
+  writeTime(timers, 0, fields.timeSigned);
+  timers.writeUInt16BE(fields.fudge, 6);
+  timers.writeUInt16BE(fields.mac.length, 8);
+
+  const trailer = Buffer.alloc(6);
+  trailer.writeUInt16BE(fields.originalId, 0);
+  trailer.writeUInt16BE(fields.error, 2);
+  trailer.writeUInt16BE(fields.other.length, 4);
+
+  return Buffer.concat([encodeName(fields.algorithm), timers, fields.mac, trailer, fields.other]);
+}
+
+function decodeTsigData(message: Buffer, record: DnsRecord): TsigFields {
+  const start = record.dataOffset ?? 0;
+  const end = start + record.data.length;
+  const { name: algorithm, next } = readName(message, start);
+  if (next + 10 > end) throw new Error('Malformed TSIG record');
+
+  const timeSigned = message.readUInt16BE(next) * 2 ** 32 + message.readUInt32BE(next + 2);
+  const fudge = message.readUInt16BE(next + 6);
+  const macSize = message.readUInt16BE(next + 8);
+  const macEnd = next + 10 + macSize;
+  if (macEnd + 6 > end) throw new Error('Malformed TSIG record');
+
+  const otherLength = message.readUInt16BE(macEnd + 4);
+  if (macEnd + 6 + otherLength > end) throw new Error('Malformed TSIG record');
+
+  return {
+    algorithm,
+    timeSigned,
+    fudge,
+    mac: message.subarray(next + 10, macEnd),
+    originalId: message.readUInt16BE(macEnd),
+    error: message.readUInt16BE(macEnd + 2),
+    other: message.subarray(macEnd + 6, macEnd + 6 + otherLength),
+  };
+}
+
+/**
+ * Append a TSIG record to an encoded DNS request
+ *
+ * @param message - Encoded request without TSIG record
+ * @param key - Shared key
+ * @param now - Current time in milliseconds (for tests)
+ * @returns Signed message and its MAC (input for {@link verifyTsigResponse})
+ */
+export function signTsigRequest(
+  message: Buffer,
+  key: TsigKey,
+  now = Date.now(),
+): TsigSignedMessage {
+  const algorithm = algorithmOf(key);
+  const fields = {
+    algorithm: algorithm.wireName,
+    timeSigned: Math.floor(now / 1000),
+    fudge: DEFAULT_FUDGE,
+    originalId: message.readUInt16BE(0),
+    error: 0,
+    other: Buffer.alloc(0),
+  };
+
+  const mac = createHmac(algorithm.hash, Buffer.from(key.secret, 'base64'))
+    .update(message)
+    .update(tsigVariables(key.name, fields))
+    .digest();
+
+  const record = encodeRecord({
+    name: key.name,
+    type: DNS_TYPE.TSIG,
+    class: DNS_CLASS.ANY,
+    ttl: 0,
+    data: encodeTsigData({ ...fields, mac }),
+  });
+
+  const signed = Buffer.concat([message, record]);
+  signed.writeUInt16BE(message.readUInt16BE(10) + 1, 10);
+  return { message: signed, mac };
+}
+
+/**
+ * Whether a decoded response carries a TSIG record
+ */
+export function hasTsigRecord(response: Buffer): boolean {
+  const last = decodeMessage(response).additionals.at(-1);
+  return last?.type === DNS_TYPE.TSIG;
+}
+
+/**
+ * Verify the TSIG record of a response to a signed request
+ *
+ * @param response - Raw response bytes
+ * @param key - Shared key used for the request
+ * @param requestMac - MAC returned by {@link signTsigRequest}
+ * @param now - Current time in milliseconds (for tests)
+ * @throws {Error} When the response is unsigned, the MAC does not match, the
+ *   signature is outside the fudge window, or the server reported a TSIG error
+ */
+export function verifyTsigResponse(
+  response: Buffer,
+  key: TsigKey,
+  requestMac: Buffer,
+  now = Date.now(),
+): void {
+  const decoded = decodeMessage(response);
+  const record = decoded.additionals.at(-1);
+  if (!record || record.type !== DNS_TYPE.TSIG || record.offset === undefined) {
+    throw new Error('DNS response is not TSIG-signed');
+  }
+  if (record.name.toLowerCase() !== key.name.replace(/\.$/, '').toLowerCase()) {
+    throw new Error(`DNS response signed with unexpected key "${record.name}"`);
+  }
+
+  const fields = decodeTsigData(response, record);
+  if (fields.error !== 0) {
+    throw new Error(`TSIG verification failed on server: ${rcodeName(fields.error)}`);
+  }
+
+  const algorithm = algorithmOf(key);
+  if (fields.algorithm.toLowerCase() !== algorithm.wireName) {
+    throw new Error(`DNS response signed with unexpected algorithm "${fields.algorithm}"`);
+  }
+
+  // MAC covers the response as it was before the TSIG record was added
+  const unsigned = Buffer.from(response.subarray(0, record.offset));
+  unsigned.writeUInt16BE(fields.originalId, 0);
+  unsigned.writeUInt16BE(decoded.additionals.length - 1, 10);
+
+  const prefix = Buffer.alloc(2);
+  prefix.writeUInt16BE(requestMac.length, 0);
+
+  const expected = createHmac(algorithm.hash, Buffer.from(key.secret, 'base64'))
+    .update(prefix)
+    .update(requestMac)
+    .update(unsigned)
+    .update(tsigVariables(record.name, fields))
+    .digest();
+
+  if (fields.mac.length !== expected.length || !timingSafeEqual(fields.mac, expected)) {
+    throw new Error('TSIG verification failed: BADSIG');
+  }
+  if (Math.abs(Math.floor(now / 1000) - fields.timeSigned) > fields.fudge) {
+    throw new Error('TSIG verification failed: BADTIME');
+  }
+}
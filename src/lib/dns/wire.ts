@@ -0,0 +1,323 @@
+/**
+ * RFC 1035 DNS Message Wire Format
+ *
+ * Minimal encoder/decoder for the DNS messages acme-love sends itself
+ * (dynamic updates, DNS-over-HTTPS queries).
+ * Features:
+ * - Domain name encoding and decompression
+ * - Header, question and resource record (de)serialization
+ * - TXT RDATA character-string handling
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc1035#section-4
+ */
+
+/** Resource record types used by acme-love */
+export const DNS_TYPE = {
+  A: 1,
+  NS: 2,
+  CNAME: 5,
+  SOA: 6,
+  TXT: 16,
+  AAAA: 28,
+  CAA: 257,
+  TSIG: 250,
+  ANY: 255,
+} as const;
+
+/** Resource record classes */
+export const DNS_CLASS = {
+  IN: 1,
+  NONE: 254,
+  ANY: 255,
+} as const;
+
+/** Header opcodes */
+export const DNS_OPCODE = {
+  QUERY: 0,
+  UPDATE: 5,
+} as const;
+
+/** Response codes (RFC 1035, RFC 2136, RFC 8945) */
+export const DNS_RCODE = {
+  NOERROR: 0,
+  FORMERR: 1,
+  SERVFAIL: 2,
+  NXDOMAIN: 3,
+  NOTIMP: 4,
+  REFUSED: 5,
+  YXDOMAIN: 6,
+  YXRRSET: 7,
+  NXRRSET: 8,
+  NOTAUTH: 9,
+  NOTZONE: 10,
+  BADSIG: 16,
+  BADKEY: 17,
+  BADTIME: 18,
+} as const;
+
+const HEADER_LENGTH = 12;
+const FLAG_QR = 0x8000;
+const FLAG_TC = 0x0200;
+const FLAG_RD = 0x0100;
+
+/**
+ * Name of a response code (e.g. `REFUSED`), or the number if unknown
+ */
+export function rcodeName(rcode: number): string {
+  const entry = Object.entries(DNS_RCODE).find(([, code]) => code === rcode);
+  return entry ? entry[0] : String(rcode);
+}
+
+/**
+ * Question section entry (also the zone section of UPDATE messages)
+ */
+export interface DnsQuestion {
+  name: string;
+  type: number;
+  class: number;
+}
+
+/**
+ * Resource record with raw RDATA
+ */
+export interface DnsRecord {
+  name: string;
+  type: number;
+  class: number;
+  ttl: number;
+  data: Buffer;
+  /** Offset of the record within a decoded message */
+  offset?: number;
+  /** Offset of RDATA within a decoded message (needed to decompress names inside RDATA) */
+  dataOffset?: number;
+}
+
+/**
+ * Decoded DNS message
+ */
+export interface DnsMessage {
+  id: number;
+  /** Raw header flags (QR, opcode, AA, TC, RD, RA, rcode) */
+  flags: number;
+  questions: DnsQuestion[];
+  answers: DnsRecord[];
+  authorities: DnsRecord[];
+  additionals: DnsRecord[];
+}
+
+/** Response code from header flags */
+export function getRcode(message: Pick<DnsMessage, 'flags'>): number {
+  return message.flags & 0x000f;
+}
+
+/** Whether the TC (truncated) bit is set */
+export function isTruncated(message: Pick<DnsMessage, 'flags'>): boolean {
+  return (message.flags & FLAG_TC) !== 0;
+}
+
+/**
+ * Header flags for a request
+ */
+export function requestFlags(opcode: number, recursionDesired = false): number {
+  return ((opcode & 0x0f) << 11) | (recursionDesired ? FLAG_RD : 0);
+}
+
+/** Whether a message is a response (QR bit) */
+export function isResponse(message: Pick<DnsMessage, 'flags'>): boolean {
+  return (message.flags & FLAG_QR) !== 0;
+}
+
+/**
+ * Encode a domain name as uncompressed wire labels
+ *
+ * Names are case-preserving; pass lowercased names where canonical form is required.
+ */
+export function encodeName(name: string): Buffer {
+  const trimmed = name.replace(/\.$/, '');
+  const labels = trimmed === '' ? [] : trimmed.split('.');
+  const parts: Buffer[] = [];
+  for (const label of labels) {
+    const bytes = Buffer.from(label, 'utf8');
+    if (bytes.length === 0 || bytes.length > 63) {
+      throw new Error(`Invalid DNS label "${label}" in ${name}`);
+    }
+    parts.push(Buffer.from([bytes.length]), bytes);
+  }
+  parts.push(Buffer.from([0]));
+  const encoded = Buffer.concat(parts);
+  if (encoded.length > 255) {
+    throw new Error(`DNS name too long: ${name}`);
+  }
+  return encoded;
+}
+
+/**
+ * Read a possibly compressed name at `offset`
+ *
+ * @returns The dotted name (no trailing dot) and the offset after it
+ */
+export function readName(buf: Buffer, offset: number): { name: string; next: number } {
+  const labels: string[] = [];
+  let position = offset;
+  let next = -1;
+  let jumps = 0;
+
+  for (;;) {
+    if (position >= buf.length) throw new Error('DNS name exceeds message');
+    const length = buf[position] as number;
+
+    if ((length & 0xc0) === 0xc0) {
+      if (position + 1 >= buf.length) throw new Error('DNS name exceeds message');
+      if (++jumps > 64) throw new Error('DNS name compression loop');
+      if (next < 0) next = position + 2;
+      position = ((length & 0x3f) << 8) | (buf[position + 1] as number);
+      continue;
+    }
+    if (length === 0) {
+      if (next < 0) next = position + 1;
+      break;
+    }
+    if (position + 1 + length > buf.length) throw new Error('DNS label exceeds message');
+    labels.push(buf.toString('utf8', position + 1, position + 1 + length));
+    position += 1 + length;
+  }
+
+  return { name: labels.join('.'), next };
+}
+
+/**
+ * Encode TXT RDATA, splitting the value into 255-byte character-strings
+ */
+export function encodeTxtData(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  const parts: Buffer[] = [];
+  for (let i = 0; i < bytes.length || parts.length === 0; i += 255) {
+    const chunk = bytes.subarray(i, i + 255);
+    parts.push(Buffer.from([chunk.length]), chunk);
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Decode TXT RDATA into its character-strings
+ */
+export function decodeTxtData(data: Buffer): string[] {
+  const strings: string[] = [];
+  let position = 0;
+  while (position < data.length) {
+    const length = data[position] as number;
+    if (position + 1 + length > data.length) throw new Error('TXT string exceeds RDATA');
+    strings.push(data.toString('utf8', position + 1, position + 1 + length));
+    position += 1 + length;
+  }
+  return strings;
+}
+
+/**
+ * Decode CAA RDATA into its flags, property tag and value (RFC 8659 Section 4.1)
+ */
+export function decodeCaaData(data: Buffer): { flags: number; tag: string; value: string } {
+  if (data.length < 2) throw new Error('CAA RDATA too short');
+  const tagLength = data[1] as number;
+  if (2 + tagLength > data.length) throw new Error('CAA tag exceeds RDATA');
+  return {
+    flags: data[0] as number,
+    tag: data.toString('ascii', 2, 2 + tagLength),
+    value: data.toString('utf8', 2 + tagLength),
+  };
+}
+
+/**
+ * Encode a resource record (uncompressed owner name)
+ */
+export function encodeRecord(record: DnsRecord): Buffer {
+  const fixed = Buffer.alloc(10);
+  fixed.writeUInt16BE(record.type, 0);
+  fixed.writeUInt16BE(record.class, 2);
+  fixed.writeUInt32BE(record.ttl >>> 0, 4);
+  fixed.writeUInt16BE(record.data.length, 8);
+  return Buffer.concat([encodeName(record.name), fixed, record.data]);
+}
+
+/**
+ * Encode a complete message
+ */
+export function encodeMessage(message: DnsMessage): Buffer {
+  const header = Buffer.alloc(HEADER_LENGTH);
+  header.writeUInt16BE(message.id, 0);
+  header.writeUInt16BE(message.flags, 2);
+  header.writeUInt16BE(message.questions.length, 4);
+  header.writeUInt16BE(message.answers.length, 6);
+  header.writeUInt16BE(message.authorities.length, 8);
+  header.writeUInt16BE(message.additionals.length, 10);
+
+  const questions = message.questions.map((q) => {
+    const fixed = Buffer.alloc(4);
+    fixed.writeUInt16BE(q.type, 0);
+    fixed.writeUInt16BE(q.class, 2);
+    return Buffer.concat([encodeName(q.name), fixed]);
+  });
+
+  return Buffer.concat([
+    header,
+    ...questions,
+    ...message.answers.map(encodeRecord),
+    ...message.authorities.map(encodeRecord),
+    ...message.additionals.map(encodeRecord),
+  ]);
+}
+
+/**
+ * Decode a complete message
+ *
+ * @throws {Error} When the message is truncated or malformed
+ */
+export function decodeMessage(buf: Buffer): DnsMessage {
+  if (buf.length < HEADER_LENGTH) throw new Error('DNS message shorter than header');
+  const counts = [4, 6, 8, 10].map((offset) => buf.readUInt16BE(offset));
+  let position = HEADER_LENGTH;
+
+  const questions: DnsQuestion[] = [];
+  for (let i = 0; i < (counts[0] as number); i++) {
+    const { name, next } = readName(buf, position);
+    if (next + 4 > buf.length) throw new Error('DNS question exceeds message');
+    questions.push({ name, type: buf.readUInt16BE(next), class: buf.readUInt16BE(next + 2) });
+    position = next + 4;
+  }
+
+  const readRecords = (count: number): DnsRecord[] => {
+    const records: DnsRecord[] = [];
+    for (let i = 0; i < count; i++) {
+      const offset = position;
+      const { name, next } = readName(buf, position);
+      if (next + 10 > buf.length) throw new Error('DNS record exceeds message');
+      const length = buf.readUInt16BE(next + 8);
+      const dataOffset = next + 10;
+      if (dataOffset + length > buf.length) throw new Error('DNS RDATA exceeds message');
+      records.push({
+        name,
+        type: buf.readUInt16BE(next),
+        class: buf.readUInt16BE(next + 2),
+        ttl: buf.readUInt32BE(next + 4),
+        data: buf.subarray(dataOffset, dataOffset + length),
+        offset,
+        dataOffset,
+      });
+      position = dataOffset + length;
+    }
+    return records;
+  };
+
+  const answers = readRecords(counts[1] as number);
+  const authorities = readRecords(counts[2] as number);
+  const additionals = readRecords(counts[3] as number);
+
+  return {
+    id: buf.readUInt16BE(0),
+    flags: buf.readUInt16BE(2),
+    questions,
+    answers,
+    authorities,
+    additionals,
+  };
+}
@@ -31,6 +31,16 @@ export abstract class AcmeOperationError extends Error {
   }
 }
 
+/**
+ * A single authorization that failed while solving an order
+ */
+export interface AuthorizationFailure {
+  /** Identifier value (`*.`-prefixed for wildcards), or the URL if it could not be fetched */
+  identifier: string;
+  authzUrl: string;
+  error: Error;
+}
+
 /**
  * Errors related to domain authorization
  */
@@ -65,6 +75,54 @@ export class AuthorizationError extends AcmeOperationError {
       status: 'revoked',
     });
   }
+
+  public static timeout(
+    domain: string,
+    currentStatus: string,
+    attempts: number,
+  ): AuthorizationError {
+    return new AuthorizationError(
+      `Authorization for ${domain} did not become valid after ${attempts} attempts. Current status: ${currentStatus}`,
+      { domain, currentStatus, attempts },
+    );
+  }
+
+  public static preAuthorizationUnsupported(): AuthorizationError {
+    return new AuthorizationError('ACME directory does not advertise a newAuthz endpoint', {
+      missing: 'newAuthz',
+    });
+  }
+
+  public static wildcardPreAuthorization(identifier: string): AuthorizationError {
+    return new AuthorizationError(
+      `Wildcard identifier ${identifier} cannot be pre-authorized; order it instead`,
+      { identifier },
+    );
+  }
+
+  public static deactivationFailed(domain: string, currentStatus: string): AuthorizationError {
+    return new AuthorizationError(
+      `Authorization for ${domain} was not deactivated. Current status: ${currentStatus}`,
+      { domain, currentStatus },
+    );
+  }
+
+  public static aggregate(failures: AuthorizationFailure[], total: number): AuthorizationError {
+    const details = failures.map((f) => `${f.identifier}: ${f.error.message}`).join('; ');
+    return new AuthorizationError(
+      `${failures.length} of ${total} authorizations failed: ${details}`,
+      {
+        failures,
+        total,
+      },
+    );
+  }
+
+  public static noAuthorizationUrl(): AuthorizationError {
+    return new AuthorizationError('No authorization URL in newAuthz response', {
+      missing: 'location_header',
+    });
+  }
 }
 
 /**
@@ -81,6 +139,20 @@ export class ChallengeError extends AcmeOperationError {
     });
   }
 
+  public static noHandler(challengeType: string, domain: string): ChallengeError {
+    return new ChallengeError(`No handler registered for ${challengeType} (needed by ${domain})`, {
+      challengeType,
+      domain,
+    });
+  }
+
+  public static noUsableChallenge(domain: string, offered: string[]): ChallengeError {
+    return new ChallengeError(
+      `No challenge offered for ${domain} matches the strategy (offered: ${offered.join(', ') || 'none'})`,
+      { domain, offered },
+    );
+  }
+
   public static invalid(challengeType: string, domain: string, reason?: string): ChallengeError {
     return new ChallengeError(
       `Challenge ${challengeType} for ${domain} is invalid${reason ? `: ${reason}` : ''}`,
@@ -88,6 +160,25 @@ export class ChallengeError extends AcmeOperationError {
     );
   }
 
+  public static cleanupFailed(challengeType: string, domain: string, cause: Error): ChallengeError {
+    return new ChallengeError(
+      `Cleanup of ${challengeType} response for ${domain} failed: ${cause.message}`,
+      { challengeType, domain, cause },
+    );
+  }
+
+  public static selfCheckFailed(
+    domain: string,
+    url: string,
+    attempts: number,
+    reasons: string[],
+  ): ChallengeError {
+    return new ChallengeError(
+      `HTTP-01 self-check for ${domain} failed after ${attempts} attempts: ${reasons.join('; ') || 'no response'}`,
+      { challengeType: 'http-01', domain, url, attempts, reasons },
+    );
+  }
+
   public static invalidWithoutDetail(challengeType: string): ChallengeError {
     return new ChallengeError(`Challenge ${challengeType} is invalid without error detail`, {
       challengeType,
@@ -118,6 +209,10 @@ export class OrderError extends AcmeOperationError {
     return new OrderError('Order does not have certificate URL', { missing: 'certificate' });
   }
 
+  public static noOrderUrl(): OrderError {
+    return new OrderError('Order does not have URL', { missing: 'url' });
+  }
+
   public static timeout(
     targetStatuses: string[],
     currentStatus: string,
@@ -128,6 +223,47 @@ export class OrderError extends AcmeOperationError {
       { targetStatuses, currentStatus, attempts },
     );
   }
+
+  public static unsupportedProfile(profile: string, available: string[]): OrderError {
+    const offered = available.length > 0 ? available.join(', ') : 'none';
+    return new OrderError(
+      `Certificate profile "${profile}" is not advertised by the ACME directory (available: ${offered})`,
+      { profile, available },
+    );
+  }
+
+  public static invalidValidityWindow(
+    reason: string,
+    window: { notBefore?: string; notAfter?: string },
+  ): OrderError {
+    return new OrderError(`Invalid order validity window: ${reason}`, { ...window, reason });
+  }
+
+  public static validityWindowRejected(
+    detail: string | undefined,
+    window: { notBefore?: string; notAfter?: string },
+  ): OrderError {
+    return new OrderError(
+      `ACME server rejected the requested validity window${detail ? `: ${detail}` : ''}`,
+      { ...window, detail },
+    );
+  }
+
+  public static autoRenewalUnsupported(): OrderError {
+    return new OrderError('ACME directory does not advertise STAR auto-renewal support', {
+      missing: 'auto-renewal',
+    });
+  }
+
+  public static invalidAutoRenewal(reason: string): OrderError {
+    return new OrderError(`Invalid auto-renewal request: ${reason}`, { reason });
+  }
+
+  public static renewalInfoUnsupported(): OrderError {
+    return new OrderError('ACME directory does not advertise a renewalInfo endpoint', {
+      missing: 'renewalInfo',
+    });
+  }
 }
 
 /**
@@ -148,6 +284,22 @@ export class AccountError extends AcmeOperationError {
       missing: 'location_header',
     });
   }
+
+  public static deactivated(accountUrl: string): AccountError {
+    return new AccountError(
+      `Account ${accountUrl} has been deactivated and can no longer be used`,
+      {
+        accountUrl,
+        status: 'deactivated',
+      },
+    );
+  }
+
+  public static keyChangeUnsupported(): AccountError {
+    return new AccountError('ACME directory does not advertise a keyChange endpoint', {
+      missing: 'keyChange',
+    });
+  }
 }
 
 /**
@@ -70,6 +70,46 @@ export class AlreadyRevokedError extends AcmeError {
   }
 }
 
+/**
+ * Error indicating that the automatic renewal of a STAR order was canceled
+ */
+export class AutoRenewalCanceledError extends AcmeError {
+  constructor(detail = 'The short-term certificate series has been canceled', status = 403) {
+    super(detail, status);
+    this.type = ACME_ERROR.autoRenewalCanceled;
+  }
+}
+
+/**
+ * Error indicating that the automatic renewal of a STAR order has expired
+ */
+export class AutoRenewalExpiredError extends AcmeError {
+  constructor(detail = 'The short-term certificate series has expired', status = 403) {
+    super(detail, status);
+    this.type = ACME_ERROR.autoRenewalExpired;
+  }
+}
+
+/**
+ * Error indicating that a STAR order cancellation request was invalid
+ */
+export class AutoRenewalCancellationInvalidError extends AcmeError {
+  constructor(detail = 'The order cannot be canceled', status = 403) {
+    super(detail, status);
+    this.type = ACME_ERROR.autoRenewalCancellationInvalid;
+  }
+}
+
+/**
+ * Error indicating that revocation of a STAR certificate is not supported
+ */
+export class AutoRenewalRevocationNotSupportedError extends AcmeError {
+  constructor(detail = 'Revocation of short-term certificates is not supported', status = 403) {
+    super(detail, status);
+    this.type = ACME_ERROR.autoRenewalRevocationNotSupported;
+  }
+}
+
 /**
  * Error indicating that the CSR is unacceptable
  */
@@ -46,6 +46,46 @@ export const ACME_ERROR = {
    */
   alreadyRevoked: `${prefix}alreadyRevoked`,
 
+  /**
+   * The short-term certificate series of a STAR order has been canceled
+   *
+   * Returned when fetching the star-certificate URL of an order whose
+   * automatic renewal was canceled by the client or the server.
+   *
+   * @see {@link https://datatracker.ietf.org/doc/html/rfc8739#section-2.3 | RFC 8739 Section 2.3 - Terminating the Automatic Renewal}
+   */
+  autoRenewalCanceled: `${prefix}autoRenewalCanceled`,
+
+  /**
+   * The short-term certificate series of a STAR order has expired
+   *
+   * Returned when fetching the star-certificate URL after the order's
+   * auto-renewal end-date has passed.
+   *
+   * @see {@link https://datatracker.ietf.org/doc/html/rfc8739#section-2.3 | RFC 8739 Section 2.3 - Terminating the Automatic Renewal}
+   */
+  autoRenewalExpired: `${prefix}autoRenewalExpired`,
+
+  /**
+   * A STAR order cancellation request was invalid
+   *
+   * Returned when the client tries to cancel an order that is not a
+   * valid STAR order (e.g., not auto-renewed or already canceled).
+   *
+   * @see {@link https://datatracker.ietf.org/doc/html/rfc8739#section-2.3 | RFC 8739 Section 2.3 - Terminating the Automatic Renewal}
+   */
+  autoRenewalCancellationInvalid: `${prefix}autoRenewalCancellationInvalid`,
+
+  /**
+   * Revocation of a STAR certificate is not supported
+   *
+   * Returned when the client attempts to revoke a short-term
+   * auto-renewed certificate; STAR relies on expiry instead.
+   *
+   * @see {@link https://datatracker.ietf.org/doc/html/rfc8739#section-2.5 | RFC 8739 Section 2.5 - Revocation}
+   */
+  autoRenewalRevocationNotSupported: `${prefix}autoRenewalRevocationNotSupported`,
+
   /**
    * The CSR is unacceptable (e.g., due to a short key)
    *
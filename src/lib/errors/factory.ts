@@ -1,6 +1,10 @@
 import {
   AccountDoesNotExistError,
   AlreadyRevokedError,
+  AutoRenewalCanceledError,
+  AutoRenewalCancellationInvalidError,
+  AutoRenewalExpiredError,
+  AutoRenewalRevocationNotSupportedError,
   BadCSRError,
   BadNonceError,
   BadPublicKeyError,
@@ -35,6 +39,10 @@ type Ctor = new (detail?: string, status?: number, ...rest: any[]) => AcmeError;
 const FACTORY: Partial<Record<AcmeErrorType, Ctor>> = {
   [ACME_ERROR.accountDoesNotExist]: AccountDoesNotExistError,
   [ACME_ERROR.alreadyRevoked]: AlreadyRevokedError,
+  [ACME_ERROR.autoRenewalCanceled]: AutoRenewalCanceledError,
+  [ACME_ERROR.autoRenewalExpired]: AutoRenewalExpiredError,
+  [ACME_ERROR.autoRenewalCancellationInvalid]: AutoRenewalCancellationInvalidError,
+  [ACME_ERROR.autoRenewalRevocationNotSupported]: AutoRenewalRevocationNotSupportedError,
   [ACME_ERROR.badCSR]: BadCSRError,
   [ACME_ERROR.badNonce]: BadNonceError,
   [ACME_ERROR.badPublicKey]: BadPublicKeyError,
@@ -13,18 +13,35 @@ export {
   type AccountKeys,
   type ExternalAccountBinding,
   type ChallengePreparation,
+  type ChallengeHandler,
+  type ChallengePreferences,
+  type ChallengeStrategy,
+  type ChallengeStrategyCallback,
+  type HttpSelfCheckOptions,
+  type SolveAuthorizationOptions,
+  type SolveConcurrencyOptions,
+  type SolveOptions,
+  type CreateOrderOptions,
+  type AutoRenewalOptions,
+  type DownloadCertificateOptions,
+  type AcmeCertificateChain,
 } from './core/acme-account.js';
 
 // Internal sub-modules (advanced usage)
 export { AcmeRequestSigner, detectJwsAlgorithm } from './core/acme-request-signer.js';
 export { AcmeOrderManager } from './core/acme-order-manager.js';
 export { AcmeChallengeSolver } from './core/acme-challenge-solver.js';
+export { revokeCertificateWithKey } from './core/acme-revocation.js';
 
 // Error handling
 export {
   AcmeError,
   AccountDoesNotExistError,
   AlreadyRevokedError,
+  AutoRenewalCanceledError,
+  AutoRenewalCancellationInvalidError,
+  AutoRenewalExpiredError,
+  AutoRenewalRevocationNotSupportedError,
   BadCSRError,
   BadNonceError,
   BadPublicKeyError,
@@ -66,19 +83,28 @@ export {
   isAccountError,
   isAcmeOperationError,
   type AcmeOperationErrorType,
+  type AuthorizationFailure,
 } from './errors/acme-operation-errors.js';
 
 // Types
-export type { AcmeDirectory, AcmeDirectoryMeta } from './types/directory.js';
+export type { AcmeDirectory, AcmeDirectoryMeta, AcmeAutoRenewalMeta } from './types/directory.js';
+export type { AcmeAccountObject, AcmeAccountStatus } from './types/account.js';
+export type {
+  AcmeRenewalInfo,
+  AcmeRenewalInfoResult,
+  AcmeRenewalWindow,
+} from './types/renewal-info.js';
 export type {
   AcmeProblem,
   AcmeOrder,
   ACMEOrder,
   AcmeOrderStatus,
+  AcmeAutoRenewal,
   AcmeChallenge,
   AcmeChallengeStatus,
   AcmeChallengeType,
   AcmeAuthorization,
+  AcmeAuthorizationResult,
   AcmeAuthorizationStatus,
   AcmeIdentifier,
 } from './types/order.js';
@@ -101,14 +127,67 @@ export {
   resolveAndValidateAcmeTxt,
   findZoneWithNs,
   resolveNsToIPs,
+  resolveAcmeTxtPerNameserver,
+  createDnsPropagationWaiter,
   validateHttp01Challenge,
   validateHttp01ChallengeByUrl,
   type AcmeDnsValidationResult,
   type AuthoritativeOptions,
+  type AcmeDnsPerServerResult,
+  type AcmeDnsServerResult,
+  type DnsPropagationPreparation,
+  type DnsPropagationProgress,
+  type DnsPropagationWaiterOptions,
   type AcmeHttpValidationResult,
   type AcmeHttpValidationOptions,
+  selfCheckHttp01,
+  type HttpSelfCheckRunOptions,
+  createHttp01Server,
+  type Http01Server,
+  type Http01ServerOptions,
+  type Http01ServerPreparation,
+  createWebrootProvider,
+  type WebrootProvider,
+  type WebrootProviderOptions,
+  type WebrootPreparation,
+  createTlsAlpn01Server,
+  type TlsAlpn01Server,
+  type TlsAlpn01ServerOptions,
+  type TlsAlpn01ServerPreparation,
 } from './challenges/index.js';
 
+// DNS providers and resolvers
+export {
+  createDns01Handler,
+  type DnsProvider,
+  type Dns01Handler,
+  type Dns01HandlerOptions,
+  type Dns01Preparation,
+  createRfc2136Provider,
+  type Rfc2136ProviderOptions,
+  createAcmeDnsProvider,
+  type AcmeDnsAccount,
+  type AcmeDnsProvider,
+  type AcmeDnsProviderOptions,
+  createDohResolver,
+  createPinnedResolver,
+  createSystemResolver,
+  type DnsResolver,
+  type DohResolverOptions,
+  type PinnedResolverOptions,
+  checkCaa,
+  parseCaaIssuer,
+  type CaaCheckOptions,
+  type CaaCheckResult,
+  type CaaIssuer,
+  type CaaProperty,
+  signTsigRequest,
+  verifyTsigResponse,
+  type TsigAlgorithm,
+  type TsigKey,
+  type TsigSignedMessage,
+} from './dns/index.js';
+
 // Transport layer
 export { AcmeHttpClient, type ParsedResponseData } from './transport/http-client.js';
 export {
@@ -116,9 +195,12 @@ export {
   isRetryableError,
   getRetryAfterMs,
   calculateRetryDelay,
+  calculatePollDelay,
+  resolvePollOptions,
   sleep,
   DEFAULT_RETRY_CONFIG,
   type RetryConfig,
+  type PollOptions,
 } from './transport/retry.js';
 export {
   MiddlewarePipeline,
@@ -146,6 +228,14 @@ export {
   type CreateCsrResult,
   type AcmeSigner,
   JoseAcmeSigner,
+  splitPemChain,
+  parseCertificatePem,
+  getChainTopIssuer,
+  getAriCertificateId,
+  createTlsAlpn01Certificate,
+  ID_PE_ACME_IDENTIFIER,
+  ACME_TLS_ALPN_PROTOCOL,
+  type TlsAlpn01Certificate,
 } from './crypto/index.js';
 
 // Constants
@@ -153,6 +243,13 @@ export { REVOCATION_REASON, type RevocationReasonValue } from './constants/statu
 
 // Utils
 export { safeReadBody, pemToBase64Url } from './utils/index.js';
+export {
+  isIpAddress,
+  normalizeIpAddress,
+  toAcmeIdentifier,
+  toUrlHost,
+  ipToReverseDnsName,
+} from './utils/identifier.js';
 export { buildUserAgent, getPackageInfo, type PackageInfo } from './utils/user-agent.js';
 
 // Branded types for compile-time safety
@@ -19,9 +19,12 @@ export {
   isRetryableError,
   getRetryAfterMs,
   calculateRetryDelay,
+  calculatePollDelay,
+  resolvePollOptions,
   sleep,
   DEFAULT_RETRY_CONFIG,
   type RetryConfig,
+  type PollOptions,
 } from './retry.js';
 
 // Middleware system
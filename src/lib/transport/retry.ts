@@ -1,4 +1,10 @@
 import { debugHttp } from '../utils/debug.js';
+import {
+  ORDER_POLL_INTERVAL_MS,
+  ORDER_POLL_MAX_INTERVAL_MS,
+  ORDER_POLL_MAX_WAIT_MS,
+  ORDER_POLL_MIN_INTERVAL_MS,
+} from '../constants/defaults.js';
 
 /**
  * Retry configuration for HTTP requests
@@ -130,6 +136,43 @@ export function calculateRetryDelay(
   return Math.min(Math.max(delayWithJitter, 0), config.maxDelayMs);
 }
 
+/**
+ * Per-call limits for order and authorization status polling
+ */
+export interface PollOptions {
+  /** Give up once this much time has passed in total (default: 5 minutes) */
+  maxWaitMs?: number;
+  /** Never poll more often than this, even if Retry-After is shorter (default: 1 second) */
+  minIntervalMs?: number;
+  /** Never sleep longer than this between polls, even if Retry-After is longer (default: 1 minute) */
+  maxIntervalMs?: number;
+}
+
+/**
+ * Fill in polling defaults
+ */
+export function resolvePollOptions(options: PollOptions = {}): Required<PollOptions> {
+  return {
+    maxWaitMs: options.maxWaitMs ?? ORDER_POLL_MAX_WAIT_MS,
+    minIntervalMs: options.minIntervalMs ?? ORDER_POLL_MIN_INTERVAL_MS,
+    maxIntervalMs: options.maxIntervalMs ?? ORDER_POLL_MAX_INTERVAL_MS,
+  };
+}
+
+/**
+ * Calculate the delay before the next status poll
+ *
+ * Uses the server's Retry-After when present (RFC 8555 Section 7.4), otherwise
+ * the default poll interval, clamped to the floor and ceiling.
+ */
+export function calculatePollDelay(
+  retryAfterMs: number | null,
+  options: Required<PollOptions>,
+): number {
+  const delay = retryAfterMs ?? ORDER_POLL_INTERVAL_MS;
+  return Math.min(Math.max(delay, options.minIntervalMs), options.maxIntervalMs);
+}
+
 /**
  * Sleep for specified milliseconds
  */
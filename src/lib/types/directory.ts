@@ -29,6 +29,9 @@ export interface AcmeDirectory {
   /** URL for key change operations (RFC 8555 Section 7.3.5) */
   keyChange: string;
 
+  /** URL prefix for ACME Renewal Information (optional, RFC 9773 Section 4) */
+  renewalInfo?: string;
+
   /** Optional metadata about the ACME server */
   meta?: AcmeDirectoryMeta;
 }
@@ -48,4 +51,33 @@ export interface AcmeDirectoryMeta {
 
   /** Whether external account binding is required */
   externalAccountRequired?: boolean;
+
+  /**
+   * Certificate profiles offered by the server, keyed by profile name with a
+   * human-readable description as value (e.g. `classic`, `shortlived`)
+   *
+   * @see https://datatracker.ietf.org/doc/draft-ietf-acme-profiles/
+   */
+  profiles?: Record<string, string>;
+
+  /**
+   * STAR (short-term, automatically renewed certificates) capabilities
+   *
+   * @see https://datatracker.ietf.org/doc/html/rfc8739#section-3.1.1
+   */
+  'auto-renewal'?: AcmeAutoRenewalMeta;
+}
+
+/**
+ * STAR directory metadata as defined in RFC 8739
+ */
+export interface AcmeAutoRenewalMeta {
+  /** Minimum acceptable certificate lifetime in seconds */
+  'min-lifetime'?: number;
+
+  /** Maximum duration of the certificate series in seconds (end-date minus start-date) */
+  'max-duration'?: number;
+
+  /** Whether the server allows unauthenticated GET on the star-certificate URL */
+  'allow-certificate-get'?: boolean;
 }
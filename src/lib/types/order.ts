@@ -25,9 +25,9 @@ export type {
  * ACME Identifier
  */
 export interface AcmeIdentifier {
-  /** Type of identifier (usually 'dns') */
+  /** Type of identifier ('dns', or 'ip' per RFC 8738) */
   type: string;
-  /** The identifier value (domain name) */
+  /** The identifier value (domain name or IP address) */
   value: string;
 }
 
@@ -79,6 +79,34 @@ export interface AcmeAuthorization {
   challenges: AcmeChallenge[];
   /** Wildcard authorization flag */
   wildcard?: boolean;
+  /** Authorization URL (from the Location header of a newAuthz response) */
+  url?: string;
+}
+
+/**
+ * Authorization together with the server's polling guidance
+ */
+export interface AcmeAuthorizationResult extends AcmeAuthorization {
+  /** Delay before the client should poll again (from Retry-After), absent if not sent */
+  retryAfterMs?: number;
+}
+
+/**
+ * STAR auto-renewal parameters of an order as defined in RFC 8739
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8739#section-3.1.1
+ */
+export interface AcmeAutoRenewal {
+  /** Earliest notBefore of the certificate series (RFC 3339) */
+  'start-date'?: string;
+  /** Latest notAfter of the certificate series (RFC 3339) */
+  'end-date': string;
+  /** Validity of each certificate in seconds */
+  lifetime: number;
+  /** Seconds each certificate's notBefore is pre-dated to tolerate clock skew */
+  'lifetime-adjust'?: number;
+  /** Allow unauthenticated GET on the star-certificate URL */
+  'allow-certificate-get'?: boolean;
 }
 
 /**
@@ -99,6 +127,18 @@ export interface AcmeOrder {
   certificate?: string;
   /** Order URL (set by client) */
   url?: string;
+  /** ARI certificate identifier of the certificate this order replaces (RFC 9773) */
+  replaces?: string;
+  /** Certificate profile selected for this order, as echoed by the server */
+  profile?: string;
+  /** Requested notBefore of the certificate (RFC 3339), as echoed by the server */
+  notBefore?: string;
+  /** Requested notAfter of the certificate (RFC 3339), as echoed by the server */
+  notAfter?: string;
+  /** STAR auto-renewal parameters, as echoed by the server (RFC 8739) */
+  'auto-renewal'?: AcmeAutoRenewal;
+  /** URL of the current STAR certificate (copied from the `star-certificate` field) */
+  starCertificate?: string;
   /** Error information if order failed */
   error?: AcmeProblem;
 }
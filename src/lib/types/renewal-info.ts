@@ -0,0 +1,35 @@
+/**
+ * ACME Renewal Information Types
+ *
+ * Type definitions for ACME Renewal Information (ARI) according to RFC 9773
+ */
+
+/**
+ * Suggested renewal window (RFC 3339 timestamps)
+ */
+export interface AcmeRenewalWindow {
+  /** Earliest suggested renewal time */
+  start: string;
+  /** Latest suggested renewal time */
+  end: string;
+}
+
+/**
+ * RenewalInfo object returned by the renewalInfo resource
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc9773#section-4.2
+ */
+export interface AcmeRenewalInfo {
+  /** Window during which the CA suggests renewing the certificate */
+  suggestedWindow: AcmeRenewalWindow;
+  /** Optional URL explaining why the window was set (e.g. mass revocation) */
+  explanationURL?: string;
+}
+
+/**
+ * RenewalInfo together with the server's polling guidance
+ */
+export interface AcmeRenewalInfoResult extends AcmeRenewalInfo {
+  /** Delay before the client should check again (from Retry-After), null if absent */
+  retryAfterMs: number | null;
+}
@@ -14,8 +14,10 @@
  * Order status transitions according to RFC 8555:
  * pending -> ready -> processing -> valid
  *            |-> invalid (on error or expiration)
+ * STAR orders (RFC 8739): valid -> canceled
  *
  * @see https://datatracker.ietf.org/doc/html/rfc8555#section-7.1.3
+ * @see https://datatracker.ietf.org/doc/html/rfc8739#section-2.3
  */
 export const ORDER_STATUS = {
   PENDING: 'pending',
@@ -23,6 +25,7 @@ export const ORDER_STATUS = {
   PROCESSING: 'processing',
   VALID: 'valid',
   INVALID: 'invalid',
+  CANCELED: 'canceled',
 } as const;
 
 export type AcmeOrderStatus = (typeof ORDER_STATUS)[keyof typeof ORDER_STATUS];
@@ -113,8 +116,9 @@ export function isValidOrderStatusTransition(from: AcmeOrderStatus, to: AcmeOrde
     [ORDER_STATUS.PENDING]: [ORDER_STATUS.READY, ORDER_STATUS.INVALID],
     [ORDER_STATUS.READY]: [ORDER_STATUS.PROCESSING, ORDER_STATUS.INVALID],
     [ORDER_STATUS.PROCESSING]: [ORDER_STATUS.VALID, ORDER_STATUS.INVALID],
-    [ORDER_STATUS.VALID]: [], // Terminal state
+    [ORDER_STATUS.VALID]: [ORDER_STATUS.CANCELED], // Only STAR orders can be canceled
     [ORDER_STATUS.INVALID]: [], // Terminal state
+    [ORDER_STATUS.CANCELED]: [], // Terminal state
   };
 
   return validTransitions[from]?.includes(to) ?? false;
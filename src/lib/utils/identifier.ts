@@ -0,0 +1,101 @@
+/**
+ * ACME Identifier Helpers
+ *
+ * Classify order identifiers as DNS names or IP addresses (RFC 8738) and
+ * derive the host/reverse-DNS forms used during validation.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8738
+ */
+
+import { isIP } from 'net';
+import type { AcmeIdentifier } from '../types/order.js';
+
+/**
+ * Check whether a value is an IPv4 or IPv6 literal
+ */
+export function isIpAddress(value: string): boolean {
+  return isIP(value) !== 0;
+}
+
+/**
+ * Normalize an IP literal to the textual form required by RFC 8738
+ *
+ * IPv4 is returned unchanged; IPv6 is lower-cased and compressed per RFC 5952.
+ */
+export function normalizeIpAddress(ip: string): string {
+  const version = isIP(ip);
+  if (version === 0) {
+    throw new Error(`Not an IP address: "${ip}"`);
+  }
+  if (version === 4) {
+    return ip;
+  }
+  // WHATWG URL serializes IPv6 hosts in RFC 5952 canonical form
+  return new URL(`http://[${ip}]/`).hostname.slice(1, -1);
+}
+
+/**
+ * Build an ACME identifier, detecting IP literals automatically
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8738#section-3
+ */
+export function toAcmeIdentifier(value: string): AcmeIdentifier {
+  if (isIpAddress(value)) {
+    return { type: 'ip', value: normalizeIpAddress(value) };
+  }
+  return { type: 'dns', value };
+}
+
+/**
+ * Format an identifier value for use as a URL host (brackets IPv6 literals)
+ */
+export function toUrlHost(value: string): string {
+  return isIP(value) === 6 ? `[${value}]` : value;
+}
+
+/**
+ * Reverse-DNS name of an IP address (in-addr.arpa / ip6.arpa)
+ *
+ * Used as the TLS SNI value when validating IP identifiers with tls-alpn-01.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8738#section-6
+ */
+export function ipToReverseDnsName(ip: string): string {
+  const version = isIP(ip);
+  if (version === 4) {
+    return `${ip.split('.').reverse().join('.')}.in-addr.arpa`;
+  }
+  if (version === 6) {
+    const groups = expandIpv6(ip);
+    const nibbles = groups.join('').split('').reverse();
+    return `${nibbles.join('.')}.ip6.arpa`;
+  }
+  throw new Error(`Not an IP address: "${ip}"`);
+}
+
+/**
+ * Expand an IPv6 literal into eight zero-padded 4-digit hex groups
+ */
+function expandIpv6(ip: string): string[] {
+  let address = ip.toLowerCase();
+
+  // Embedded IPv4 tail (e.g. ::ffff:192.0.2.1) becomes two hex groups
+  const v4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (v4Tail?.[1]) {
+    const octets = v4Tail[1].split('.').map(Number);
+    const hi = (((octets[0] ?? 0) << 8) | (octets[1] ?? 0)).toString(16);
+    const lo = (((octets[2] ?? 0) << 8) | (octets[3] ?? 0)).toString(16);
+    address = `${address.slice(0, -v4Tail[1].length)}${hi}:${lo}`;
+  }
+
+  const [head = '', tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [...headGroups, ...Array<string>(missing).fill('0'), ...tailGroups];
+
+  return groups.map((group) => group.padStart(4, '0'));
+}